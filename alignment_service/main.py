@@ -1,10 +1,12 @@
 
 import io
 import os
+import json
 import base64
-from typing import Optional, List, Dict, Any
+import time
+from typing import Optional, List, Dict, Any, Iterator
 from fastapi import FastAPI, File, UploadFile, Form
-from fastapi.responses import JSONResponse
+from fastapi.responses import JSONResponse, StreamingResponse
 from pydantic import BaseModel
 from striprtf.striprtf import rtf_to_text
 
@@ -17,75 +19,416 @@ except Exception as e:
 
 app = FastAPI(title="Case Scribe Alignment Service")
 
+class Location(BaseModel):
+    # Page and line as printed in the transcript (synthesized at 25 lines/page without a line map)
+    page: int
+    line: int
+    # Character span in transcriptText
+    offset: int
+    length: int
+    # Audio position (seconds), when whisper word timestamps are available
+    start: Optional[float] = None
+    end: Optional[float] = None
+
 class ErrorItem(BaseModel):
+    # 1-based line/column in transcriptText
     line: int
     column: int
     original: str
     suggested: str
     confidence: float
     type: str
+    location: Optional[Location] = None
+    # Who was speaking on the error's line ("THE COURT", "MR. SMITH", "A"), when known
+    speaker: Optional[str] = None
+
+class WordTiming(BaseModel):
+    word: str
+    start: float
+    end: float
+
+class LineTiming(BaseModel):
+    line: int
+    start: float
+    end: float
+
+class AlignmentOp(BaseModel):
+    # equal | replace | insert | delete, as in difflib; "insert" is audio the transcript lacks
+    tag: str
+    # Character span in transcriptText (empty for inserts)
+    offset: int
+    length: int
+    # What the machine transcription has for this span, in the words whisper returned
+    audioText: str
+    start: Optional[float] = None
+    end: Optional[float] = None
+
+class PageAccuracy(BaseModel):
+    page: int
+    # Words heard in the audio on this page
+    referenceWords: int
+    substitutions: int
+    deletions: int
+    insertions: int
+    # None when no audio words fell on the page
+    accuracy: Optional[float] = None
+
+class AccuracyReport(BaseModel):
+    # The audio is the reference and the transcript the hypothesis: an insertion is a
+    # transcript word nobody said, a deletion a spoken word the transcript left out
+    referenceWords: int
+    transcriptWords: int
+    correctWords: int
+    substitutions: int
+    deletions: int
+    insertions: int
+    # (S + D + I) / referenceWords; None without audio words to compare against
+    wer: Optional[float] = None
+    # 1 - WER, floored at 0
+    accuracy: Optional[float] = None
+    pages: List[PageAccuracy] = []
 
 class Summary(BaseModel):
     totalErrors: int
     byType: Dict[str, int]
+    # Word accuracy of the transcript against the audio, 0 when it couldn't be measured
     confidenceScore: float
+    # Seconds from the start of transcription to the finished analysis
     processingTime: float
+    accuracy: Optional[AccuracyReport] = None
 
 class Analysis(BaseModel):
     errors: List[ErrorItem]
     summary: Summary
 
+class DictionaryTerm(BaseModel):
+    # Canonical spelling, e.g. "voir dire" or "Okonkwo"
+    term: str
+    # legal | party | attorney | place | exhibit | other
+    category: str = "legal"
+    # Known mis-hearings or misspellings that should become the term
+    variants: List[str] = []
+
+class ErrataEntry(BaseModel):
+    page: int
+    line: int
+    original: str
+    corrected: str
+    reason: str
+
+class ErrataRequest(BaseModel):
+    caseCaption: str
+    caseNumber: str = ""
+    witnessName: str
+    depositionDate: str = ""
+    reporterName: str = ""
+    entries: List[ErrataEntry]
+
+class CertificateRequest(BaseModel):
+    caseCaption: str
+    caseNumber: str = ""
+    witnessName: str = ""
+    depositionDate: str = ""
+    reporterName: str
+    accuracy: AccuracyReport
+
 def _tokenize(text: str):
     import re
     tokens = re.findall(r"\w+|[^\w\s]", text, re.UNICODE)
     return tokens
 
-def _align_stub(transcript_text: str, audio_text: str) -> List[ErrorItem]:
+def _tokenize_spans(text: str):
+    # Lowercased tokens with their character spans in the original text
+    import re
+    return [(m.group().lower(), m.start(), m.end()) for m in re.finditer(r"\w+|[^\w\s]", text, re.UNICODE)]
+
+LINES_PER_PAGE = 25
+
+def _detect_speakers(transcript_text: str) -> List[Optional[str]]:
+    # Server-side fallback for transcripts the client couldn't parse (e.g. RTF sent as a file).
+    # Mirrors the client parser: Q./A. markers, BY lines naming the examiner, "LABEL:" speakers,
+    # and continuation lines belonging to whoever spoke last.
+    import re
+    question = re.compile(r"^Q(?:[.:](?:\s|$)|\s{2,}|\t|$)")
+    answer = re.compile(r"^A(?:[.:](?:\s|$)|\s{2,}|\t|$)")
+    byline = re.compile(r"^BY\s+([A-Z][A-Z.'\- ]+?):?\s*$")
+    label = re.compile(r"^((?:THE\s+)?[A-Z][A-Z.'\- ]{1,40}?):(?:\s+|$)")
+    speakers: List[Optional[str]] = []
+    current: Optional[str] = None
+    examiner: Optional[str] = None
+    for raw in transcript_text.split("\n"):
+        text = re.sub(r"^\s*\d{1,2}(?:\s+|$)", "", raw).strip()
+        speaker: Optional[str] = None
+        if not text or text.startswith("("):
+            pass
+        elif byline.match(text):
+            examiner = byline.match(text).group(1).strip()
+            current = None
+        elif question.match(text):
+            speaker = current = examiner or "Q"
+        elif answer.match(text):
+            speaker = current = "A"
+        elif label.match(text):
+            speaker = current = label.match(text).group(1).strip()
+        else:
+            speaker = current
+        speakers.append(speaker)
+    return speakers
+
+class _Locator:
+    """Maps character offsets in the transcript text to line/column, page:line and speaker."""
+
+    def __init__(self, transcript_text: str, line_map: Optional[List[List[int]]] = None,
+                 line_speakers: Optional[List[Optional[str]]] = None):
+        self.line_starts = [0]
+        for i, ch in enumerate(transcript_text):
+            if ch == "\n":
+                self.line_starts.append(i + 1)
+        n = len(self.line_starts)
+        if line_map and len(line_map) == n:
+            self.line_map = [[int(p), int(l)] for p, l in line_map]
+        else:
+            self.line_map = [[i // LINES_PER_PAGE + 1, i % LINES_PER_PAGE + 1] for i in range(n)]
+        if line_speakers and len(line_speakers) == n:
+            self.speakers = [s or None for s in line_speakers]
+        else:
+            self.speakers = _detect_speakers(transcript_text)
+
+    def speaker_at(self, offset: int) -> Optional[str]:
+        return self.speakers[self.line_index(offset)]
+
+    def line_index(self, offset: int) -> int:
+        import bisect
+        return max(bisect.bisect_right(self.line_starts, offset) - 1, 0)
+
+    def page_at(self, offset: int) -> int:
+        return self.line_map[self.line_index(offset)][0]
+
+    def locate(self, offset: int, length: int, start=None, end=None):
+        idx = self.line_index(offset)
+        page, line = self.line_map[idx]
+        column = offset - self.line_starts[idx] + 1
+        return idx + 1, column, Location(page=page, line=line, offset=offset, length=length, start=start, end=end)
+
+def _timed_tokens(words: List[WordTiming]):
+    # Split whisper words into alignment tokens, each carrying its word's timing.
+    # The original-case tokens, and which of them start a word, rebuild the text for display.
+    tokens, times, display, word_starts = [], [], [], []
+    for w in words:
+        lowered = _tokenize(w.word.lower())
+        original = _tokenize(w.word)
+        for k, tok in enumerate(lowered):
+            tokens.append(tok)
+            times.append((w.start, w.end))
+            display.append(original[k] if len(original) == len(lowered) else tok)
+            word_starts.append(k == 0)
+    return tokens, times, display, word_starts
+
+def _audio_text(display: List[str], word_starts: List[bool], j1: int, j2: int) -> str:
+    # Tokens of one whisper word are glued back together; words are space-separated
+    return "".join((" " if word_starts[k] and k > j1 else "") + display[k] for k in range(j1, j2))
+
+def _span_time(times, j1: int, j2: int):
+    # Time range for audio tokens j1..j2; for empty ranges (deletions) use the nearest token
+    if not times:
+        return None, None
+    if j1 < j2:
+        return times[j1][0], times[j2 - 1][1]
+    k = min(j1, len(times) - 1)
+    return times[k][0], times[k][0]
+
+def _is_word(token: str) -> bool:
+    # Punctuation tokens are aligned but don't count towards WER
+    return token[0].isalnum() or token[0] == "_"
+
+def _word_rate(errors: int, reference: int):
+    if not reference:
+        return None, None
+    wer = errors / reference
+    return round(wer, 4), round(max(0.0, 1.0 - wer), 4)
+
+class _AccuracyCounter:
+    """Tallies word-level substitutions, deletions and insertions per printed page."""
+
+    def __init__(self, locator: _Locator):
+        self.pages: Dict[int, Dict[str, int]] = {
+            page: {"reference": 0, "correct": 0, "substitutions": 0, "deletions": 0, "insertions": 0}
+            for page, _ in locator.line_map
+        }
+
+    def add(self, page: int, transcript_words: int, audio_words: int, equal: bool = False):
+        counts = self.pages[page]
+        counts["reference"] += audio_words
+        if equal:
+            counts["correct"] += audio_words
+            return
+        substituted = min(transcript_words, audio_words)
+        counts["substitutions"] += substituted
+        counts["deletions"] += audio_words - substituted
+        counts["insertions"] += transcript_words - substituted
+
+    def report(self, transcript_words: int) -> AccuracyReport:
+        totals = {key: sum(c[key] for c in self.pages.values())
+                  for key in ["reference", "correct", "substitutions", "deletions", "insertions"]}
+        pages = []
+        for page, c in self.pages.items():
+            _, accuracy = _word_rate(c["substitutions"] + c["deletions"] + c["insertions"], c["reference"])
+            pages.append(PageAccuracy(page=page, referenceWords=c["reference"], substitutions=c["substitutions"],
+                                      deletions=c["deletions"], insertions=c["insertions"], accuracy=accuracy))
+        wer, accuracy = _word_rate(totals["substitutions"] + totals["deletions"] + totals["insertions"],
+                                   totals["reference"])
+        return AccuracyReport(
+            referenceWords=totals["reference"],
+            transcriptWords=transcript_words,
+            correctWords=totals["correct"],
+            substitutions=totals["substitutions"],
+            deletions=totals["deletions"],
+            insertions=totals["insertions"],
+            wer=wer,
+            accuracy=accuracy,
+            pages=pages,
+        )
+
+def _align_stub(transcript_text: str, words: List[WordTiming], locator: _Locator):
     # Very naive diff-based mismatch detector as placeholder.
     import difflib
-    t_tokens = _tokenize(transcript_text.lower())
-    a_tokens = _tokenize(audio_text.lower())
+    t_spans = _tokenize_spans(transcript_text)
+    t_tokens = [t for t, _, _ in t_spans]
+    a_tokens, a_times, a_display, a_word_starts = _timed_tokens(words)
     sm = difflib.SequenceMatcher(a=t_tokens, b=a_tokens)
     errors: List[ErrorItem] = []
-    line = 1
-    col = 1
+    ops: List[AlignmentOp] = []
+    line_times: Dict[int, List[float]] = {}
+    counter = _AccuracyCounter(locator)
+
+    def span_of(i1: int, i2: int):
+        # Character span of transcript tokens i1..i2; insertions get an empty span at i1
+        if i1 < i2:
+            return t_spans[i1][1], t_spans[i2 - 1][2] - t_spans[i1][1]
+        if i1 < len(t_spans):
+            return t_spans[i1][1], 0
+        return len(transcript_text), 0
+
     for tag, i1, i2, j1, j2 in sm.get_opcodes():
+        start, end = _span_time(a_times, j1, j2)
+        offset, length = span_of(i1, i2)
+        ops.append(AlignmentOp(tag=tag, offset=offset, length=length,
+                               audioText=_audio_text(a_display, a_word_starts, j1, j2), start=start, end=end))
+        if tag == "equal":
+            for k in range(i2 - i1):
+                # Equal runs can cross a page break, so they're counted token by token
+                if _is_word(t_tokens[i1 + k]):
+                    counter.add(locator.page_at(t_spans[i1 + k][1]), 1, 1, equal=True)
+                t_start, t_end = a_times[j1 + k]
+                span = line_times.setdefault(locator.line_index(t_spans[i1 + k][1]) + 1, [t_start, t_end])
+                span[0] = min(span[0], t_start)
+                span[1] = max(span[1], t_end)
+            continue
+        line, column, location = locator.locate(offset, length, start, end)
+        counter.add(location.page,
+                    sum(1 for t in t_tokens[i1:i2] if _is_word(t)),
+                    sum(1 for t in a_tokens[j1:j2] if _is_word(t)))
         if tag == "replace" or tag == "delete":
-            original = " ".join(t_tokens[i1:i2])[:80]
+            original = transcript_text[offset:offset + length]
             suggested = " ".join(a_tokens[j1:j2])[:80]
             errors.append(ErrorItem(
                 line=line,
-                column=col,
+                column=column,
                 original=original or "(missing)",
                 suggested=suggested or "(remove)",
                 confidence=0.75,
-                type="audio_mismatch"
+                type="audio_mismatch",
+                location=location
             ))
-            col += 1
         elif tag == "insert":
-            original = ""
             suggested = " ".join(a_tokens[j1:j2])[:80]
             errors.append(ErrorItem(
                 line=line,
-                column=col,
+                column=column,
                 original="(missing)",
                 suggested=suggested,
                 confidence=0.7,
-                type="audio_mismatch"
+                type="audio_mismatch",
+                location=location
             ))
-            col += 1
-    return errors
+    timings = [LineTiming(line=n, start=t[0], end=t[1]) for n, t in sorted(line_times.items())]
+    accuracy = counter.report(sum(1 for t in t_tokens if _is_word(t)))
+    return errors, timings, accuracy, ops
 
-def _grammar_spell_flags(transcript_text: str) -> List[ErrorItem]:
+def _grammar_spell_flags(transcript_text: str, locator: _Locator) -> List[ErrorItem]:
     # Placeholder for grammar/spelling; in production use a model or libraries like language_tool_python
+    import re
     suspicious = []
     for bad, good in [("councelor", "counselor"), ("inadmissable", "inadmissible")]:
-        if bad in transcript_text:
+        for m in re.finditer(re.escape(bad), transcript_text):
+            line, column, location = locator.locate(m.start(), len(bad))
             suspicious.append(ErrorItem(
-                line=1, column=1, original=bad, suggested=good, confidence=0.95, type="spelling"
+                line=line, column=column, original=bad, suggested=good, confidence=0.95, type="spelling",
+                location=location
             ))
     return suspicious
 
+# Proper nouns are case-sensitive; legal terms of art are not
+PROPER_NOUN_CATEGORIES = {"party", "attorney", "place", "exhibit"}
+NEAR_MISS_RATIO = 0.85
+# Plurals and possessives of a term are the term used in a sentence, not a mishearing
+INFLECTION_SUFFIXES = {"s", "es", "'s"}
+
+def _dictionary_flags(transcript_text: str, terms: List[DictionaryTerm], locator: _Locator) -> List[ErrorItem]:
+    """Flag listed variants, near-misses and miscapitalizations of dictionary terms as legal_term errors."""
+    import re
+    import difflib
+    spans = [(m.group(), m.start(), m.end()) for m in re.finditer(r"\w+(?:['.-]\w+)*", transcript_text, re.UNICODE)]
+    flagged: Dict[int, ErrorItem] = {}
+
+    def flag(offset: int, end: int, suggested: str, confidence: float):
+        if offset in flagged and flagged[offset].confidence >= confidence:
+            return
+        line, column, location = locator.locate(offset, end - offset)
+        flagged[offset] = ErrorItem(
+            line=line, column=column, original=transcript_text[offset:end], suggested=suggested,
+            confidence=confidence, type="legal_term", location=location
+        )
+
+    for entry in terms:
+        term = entry.term.strip()
+        if not term:
+            continue
+        # 1) Variants the reporter has told us about
+        for variant in entry.variants:
+            variant = variant.strip()
+            if not variant or variant.lower() == term.lower():
+                continue
+            for m in re.finditer(r"(?<!\w)" + re.escape(variant) + r"(?!\w)", transcript_text, re.IGNORECASE):
+                flag(m.start(), m.end(), term, 0.9)
+
+        # 2) Same-length word windows that are close to, but not exactly, the term
+        size = len(term.split())
+        lowered = term.lower()
+        for i in range(len(spans) - size + 1):
+            start, end = spans[i][1], spans[i + size - 1][2]
+            # A length this far off can't reach the ratio, which is at most 2*shorter/(sum of lengths)
+            if 2 * min(end - start, len(lowered)) < NEAR_MISS_RATIO * (end - start + len(lowered)):
+                continue
+            candidate = transcript_text[start:end]
+            if candidate == term:
+                continue
+            folded = candidate.lower()
+            if folded == lowered:
+                if entry.category in PROPER_NOUN_CATEGORIES:
+                    flag(start, end, term, 0.8)
+                continue
+            if len(lowered) < 5:
+                continue
+            if folded.startswith(lowered) and folded[len(lowered):] in INFLECTION_SUFFIXES:
+                continue
+            # quick_ratio bounds ratio from above, so it only skips what couldn't match
+            matcher = difflib.SequenceMatcher(a=folded, b=lowered)
+            if matcher.quick_ratio() >= NEAR_MISS_RATIO and matcher.ratio() >= NEAR_MISS_RATIO:
+                flag(start, end, term, 0.7)
+
+    return list(flagged.values())
+
 def build_docx(corrected_text: str) -> bytes:
     from docx import Document
     from docx.shared import Pt
@@ -104,32 +447,198 @@ def build_docx(corrected_text: str) -> bytes:
 def health():
     return {"ok": True, "use_whisper": USE_WHISPER}
 
-@app.post("/align")
-async def align_endpoint(
-    rtf_file: Optional[UploadFile] = File(default=None),
-    audio_file: UploadFile = File(...),
-    plain_text: Optional[str] = Form(default=None),
-    whisper_model_size: str = Form(default="small")
-):
-    # 1) Load transcript text (prefer RTF -> text; else plain text)
-    transcript_text = ""
-    if rtf_file is not None:
-        raw = await rtf_file.read()
-        try:
-            transcript_text = rtf_to_text(raw.decode('utf-8', errors='ignore'))
-        except Exception:
-            # fallback treat it as plain text
-            transcript_text = raw.decode('utf-8', errors='ignore')
-    elif plain_text:
-        transcript_text = plain_text
-    else:
-        return JSONResponse(status_code=400, content={"error": "No transcript provided (rtf_file or plain_text)."})
-    transcript_text = transcript_text.strip()
+ERRATA_COLUMNS = ["Page", "Line", "Change From", "Change To", "Reason"]
 
-    # 2) Transcribe audio (or stub)
-    audio_bytes = await audio_file.read()
+def _errata_certification(req: ErrataRequest) -> str:
+    return (
+        f"I, {req.witnessName}, have read the foregoing transcript of my testimony and, "
+        "except for the changes noted above, hereby certify it to be true and correct."
+    )
+
+def build_errata_docx(req: ErrataRequest) -> bytes:
+    from docx import Document
+    from docx.shared import Pt
+    from docx.enum.text import WD_ALIGN_PARAGRAPH
+    doc = Document()
+    style = doc.styles['Normal']
+    style.font.name = 'Calibri'
+    style.font.size = Pt(11)
+
+    title = doc.add_heading("ERRATA SHEET", level=1)
+    title.alignment = WD_ALIGN_PARAGRAPH.CENTER
+    doc.add_paragraph(req.caseCaption)
+    details = [("Case No.", req.caseNumber), ("Witness", req.witnessName),
+               ("Date of Deposition", req.depositionDate), ("Reporter", req.reporterName)]
+    for label, value in details:
+        if value:
+            doc.add_paragraph(f"{label}: {value}")
+
+    table = doc.add_table(rows=1, cols=len(ERRATA_COLUMNS))
+    table.style = 'Table Grid'
+    for cell, heading in zip(table.rows[0].cells, ERRATA_COLUMNS):
+        cell.text = heading
+        cell.paragraphs[0].runs[0].bold = True
+    for e in req.entries:
+        row = table.add_row().cells
+        for cell, value in zip(row, [str(e.page), str(e.line), e.original, e.corrected, e.reason]):
+            cell.text = value
+
+    doc.add_paragraph()
+    doc.add_paragraph(_errata_certification(req))
+    for label in ["Signature of Witness", "Date"]:
+        doc.add_paragraph("\n" + "_" * 40 + "\n" + label)
+    doc.add_paragraph("\nSubscribed and sworn to before me this ____ day of __________, 20__.")
+    for label in ["Notary Public", "My commission expires"]:
+        doc.add_paragraph("\n" + "_" * 40 + "\n" + label)
+    bio = io.BytesIO()
+    doc.save(bio)
+    return bio.getvalue()
+
+def build_errata_pdf(req: ErrataRequest) -> bytes:
+    from reportlab.lib import colors
+    from reportlab.lib.pagesizes import letter
+    from reportlab.lib.styles import getSampleStyleSheet
+    from reportlab.lib.units import inch
+    from reportlab.platypus import SimpleDocTemplate, Paragraph, Spacer, Table, TableStyle
+    from xml.sax.saxutils import escape
+
+    styles = getSampleStyleSheet()
+    cell = styles['BodyText']
+    bio = io.BytesIO()
+    doc = SimpleDocTemplate(bio, pagesize=letter, title="Errata Sheet")
+    story = [Paragraph("ERRATA SHEET", styles['Title']), Paragraph(escape(req.caseCaption), styles['Normal'])]
+    details = [("Case No.", req.caseNumber), ("Witness", req.witnessName),
+               ("Date of Deposition", req.depositionDate), ("Reporter", req.reporterName)]
+    for label, value in details:
+        if value:
+            story.append(Paragraph(f"<b>{label}:</b> {escape(value)}", styles['Normal']))
+    story.append(Spacer(1, 12))
+
+    rows = [[Paragraph(f"<b>{h}</b>", cell) for h in ERRATA_COLUMNS]]
+    for e in req.entries:
+        rows.append([str(e.page), str(e.line), Paragraph(escape(e.original), cell),
+                     Paragraph(escape(e.corrected), cell), Paragraph(escape(e.reason), cell)])
+    table = Table(rows, colWidths=[0.6 * inch, 0.6 * inch, 2 * inch, 2 * inch, 1.8 * inch], repeatRows=1)
+    table.setStyle(TableStyle([
+        ('GRID', (0, 0), (-1, -1), 0.5, colors.grey),
+        ('BACKGROUND', (0, 0), (-1, 0), colors.whitesmoke),
+        ('VALIGN', (0, 0), (-1, -1), 'TOP'),
+    ]))
+    story += [table, Spacer(1, 18), Paragraph(escape(_errata_certification(req)), styles['Normal'])]
+    for label in ["Signature of Witness", "Date"]:
+        story += [Spacer(1, 28), Paragraph("_" * 40, styles['Normal']), Paragraph(label, styles['Normal'])]
+    story += [Spacer(1, 28), Paragraph("Subscribed and sworn to before me this ____ day of __________, 20__.", styles['Normal'])]
+    for label in ["Notary Public", "My commission expires"]:
+        story += [Spacer(1, 28), Paragraph("_" * 40, styles['Normal']), Paragraph(label, styles['Normal'])]
+    doc.build(story)
+    return bio.getvalue()
+
+def _percent(value: Optional[float]) -> str:
+    return "n/a" if value is None else f"{value * 100:.2f}%"
+
+def _certificate_details(req: CertificateRequest):
+    return [("Case", req.caseCaption), ("Case No.", req.caseNumber), ("Witness", req.witnessName),
+            ("Date of Deposition", req.depositionDate), ("Reporter", req.reporterName)]
+
+def _certificate_totals(report: AccuracyReport):
+    return [("Word accuracy", _percent(report.accuracy)), ("Word error rate (WER)", _percent(report.wer)),
+            ("Words spoken (audio)", str(report.referenceWords)), ("Words transcribed", str(report.transcriptWords)),
+            ("Correct words", str(report.correctWords)), ("Substitutions", str(report.substitutions)),
+            ("Deletions", str(report.deletions)), ("Insertions", str(report.insertions))]
+
+CERTIFICATE_PAGE_COLUMNS = ["Page", "Words Spoken", "Substitutions", "Deletions", "Insertions", "Accuracy"]
 
+def _certificate_page_rows(report: AccuracyReport):
+    return [[str(p.page), str(p.referenceWords), str(p.substitutions), str(p.deletions),
+             str(p.insertions), _percent(p.accuracy)] for p in report.pages]
+
+def _certificate_statement(req: CertificateRequest) -> str:
+    return (
+        f"The transcript prepared by {req.reporterName} was compared word by word against a machine "
+        "transcription of the audio recording. The figures above are the result of that comparison."
+    )
+
+def build_certificate_html(req: CertificateRequest) -> str:
+    from html import escape
+    details = "".join(f"<p><strong>{label}:</strong> {escape(value)}</p>"
+                      for label, value in _certificate_details(req) if value)
+    totals = "".join(f"<tr><th>{label}</th><td>{value}</td></tr>" for label, value in _certificate_totals(req.accuracy))
+    head = "".join(f"<th>{h}</th>" for h in CERTIFICATE_PAGE_COLUMNS)
+    rows = "".join("<tr>" + "".join(f"<td>{v}</td>" for v in row) + "</tr>"
+                   for row in _certificate_page_rows(req.accuracy))
+    return f"""<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Transcript Accuracy Certificate</title>
+<style>
+body {{ font-family: Calibri, Arial, sans-serif; max-width: 720px; margin: 40px auto; color: #111; }}
+h1 {{ text-align: center; }}
+table {{ border-collapse: collapse; width: 100%; margin: 16px 0; }}
+th, td {{ border: 1px solid #999; padding: 4px 8px; text-align: left; }}
+.signature {{ margin-top: 48px; }}
+</style>
+</head>
+<body>
+<h1>TRANSCRIPT ACCURACY CERTIFICATE</h1>
+{details}
+<table>{totals}</table>
+<h2>Accuracy by Page</h2>
+<table><thead><tr>{head}</tr></thead><tbody>{rows}</tbody></table>
+<p>{escape(_certificate_statement(req))}</p>
+<p class="signature">________________________________________<br>Signature of Reporter</p>
+<p class="signature">________________________________________<br>Date</p>
+</body>
+</html>
+"""
+
+def build_certificate_pdf(req: CertificateRequest) -> bytes:
+    from reportlab.lib import colors
+    from reportlab.lib.pagesizes import letter
+    from reportlab.lib.styles import getSampleStyleSheet
+    from reportlab.platypus import SimpleDocTemplate, Paragraph, Spacer, Table, TableStyle
+    from xml.sax.saxutils import escape
+
+    styles = getSampleStyleSheet()
+    bio = io.BytesIO()
+    doc = SimpleDocTemplate(bio, pagesize=letter, title="Transcript Accuracy Certificate")
+    story = [Paragraph("TRANSCRIPT ACCURACY CERTIFICATE", styles['Title'])]
+    for label, value in _certificate_details(req):
+        if value:
+            story.append(Paragraph(f"<b>{label}:</b> {escape(value)}", styles['Normal']))
+    story.append(Spacer(1, 12))
+
+    grid = TableStyle([
+        ('GRID', (0, 0), (-1, -1), 0.5, colors.grey),
+        ('VALIGN', (0, 0), (-1, -1), 'TOP'),
+    ])
+    totals = Table([list(row) for row in _certificate_totals(req.accuracy)], hAlign='LEFT')
+    totals.setStyle(grid)
+    pages = Table([CERTIFICATE_PAGE_COLUMNS] + _certificate_page_rows(req.accuracy), repeatRows=1, hAlign='LEFT')
+    pages.setStyle(TableStyle(grid.getCommands() + [('BACKGROUND', (0, 0), (-1, 0), colors.whitesmoke)]))
+    story += [totals, Spacer(1, 18), Paragraph("Accuracy by Page", styles['Heading2']), pages,
+              Spacer(1, 18), Paragraph(escape(_certificate_statement(req)), styles['Normal'])]
+    for label in ["Signature of Reporter", "Date"]:
+        story += [Spacer(1, 28), Paragraph("_" * 40, styles['Normal']), Paragraph(label, styles['Normal'])]
+    doc.build(story)
+    return bio.getvalue()
+
+def _progress(stage: str, progress: float) -> Dict[str, Any]:
+    return {"stage": stage, "progress": round(min(max(progress, 0.0), 1.0), 3)}
+
+def _run_pipeline(transcript_text: str, audio_bytes: bytes, whisper_model_size: str,
+                  line_map: Optional[List[List[int]]] = None,
+                  dictionary: Optional[List[DictionaryTerm]] = None,
+                  line_speakers: Optional[List[Optional[str]]] = None) -> Iterator[Dict[str, Any]]:
+    # Yields progress events {"stage", "progress" (0..1 within the stage)} and finally
+    # {"stage": "done", "result": {...}} so callers can stream or just take the result.
+
+    started = time.monotonic()
+
+    # 2) Transcribe audio (or stub)
+    yield _progress("transcription", 0.0)
     audio_text = ""
+    words: List[WordTiming] = []
     if USE_WHISPER:
         try:
             # load model (CPU by default; for GPU set envs)
@@ -139,14 +648,16 @@ async def align_endpoint(
                 tmp.write(audio_bytes)
                 tmp_path = tmp.name
             segments, info = model.transcribe(tmp_path, word_timestamps=True)
-            words = []
+            # segments is lazy: transcription happens as we iterate, so report against audio duration
             for seg in segments:
                 if hasattr(seg, "words") and seg.words:
                     for w in seg.words:
-                        words.append(w.word)
+                        words.append(WordTiming(word=w.word.strip(), start=w.start, end=w.end))
                 else:
-                    words.append(seg.text)
-            audio_text = " ".join(words).strip()
+                    words.append(WordTiming(word=seg.text.strip(), start=seg.start, end=seg.end))
+                if info.duration:
+                    yield _progress("transcription", seg.end / info.duration)
+            audio_text = " ".join(w.word for w in words).strip()
             try:
                 os.remove(tmp_path)
             except Exception:
@@ -158,10 +669,19 @@ async def align_endpoint(
     if not audio_text:
         # fallback to treating audio as empty; alignment will produce many mismatches
         audio_text = ""
+    yield _progress("transcription", 1.0)
 
     # 3) Alignment + error flags
-    errors = _align_stub(transcript_text, audio_text)
-    errors += _grammar_spell_flags(transcript_text)
+    yield _progress("alignment", 0.0)
+    locator = _Locator(transcript_text, line_map, line_speakers)
+    errors, line_timings, accuracy, alignment = _align_stub(transcript_text, words, locator)
+    errors += _grammar_spell_flags(transcript_text, locator)
+    if dictionary:
+        errors += _dictionary_flags(transcript_text, dictionary, locator)
+    errors.sort(key=lambda e: e.location.offset if e.location else 0)
+    for e in errors:
+        if e.location:
+            e.speaker = locator.speaker_at(e.location.offset)
 
     # summary
     by_type = {}
@@ -170,20 +690,33 @@ async def align_endpoint(
     summary = Summary(
         totalErrors=len(errors),
         byType=by_type,
-        confidenceScore=0.8 if errors else 0.95,
-        processingTime=7.2
+        confidenceScore=accuracy.accuracy or 0.0,
+        processingTime=round(time.monotonic() - started, 2),
+        accuracy=accuracy
     )
     analysis = Analysis(errors=errors, summary=summary)
+    yield _progress("alignment", 1.0)
 
     # 4) Corrected transcript (for now, we just prefer transcript_text and apply trivial substitutions)
+    yield _progress("document", 0.0)
     corrected = transcript_text.replace("councelor", "counselor").replace("inadmissable", "inadmissible")
 
     # 5) Build downloadable files (txt, docx)
     txt_bytes = corrected.encode('utf-8')
     docx_bytes = build_docx(corrected)
+    yield _progress("document", 1.0)
 
-    return {
+    yield {"stage": "done", "result": {
         "analysis": analysis.model_dump(),
+        "transcriptText": transcript_text,
+        "words": [w.model_dump() for w in words],
+        "lineTimings": [t.model_dump() for t in line_timings],
+        # Every difflib opcode between transcript and audio tokens, for the side-by-side view
+        "alignment": [op.model_dump() for op in alignment],
+        # [page, line] for every line of transcriptText
+        "lineMap": locator.line_map,
+        # Speaker per line of transcriptText, for per-speaker statistics
+        "lineSpeakers": locator.speakers,
         "correctedTranscript": corrected,
         "downloads": {
             "txt_base64": base64.b64encode(txt_bytes).decode('ascii'),
@@ -193,4 +726,93 @@ async def align_endpoint(
                 "docx": "corrected_transcript.docx"
             }
         }
+    }}
+
+@app.post("/align")
+async def align_endpoint(
+    rtf_file: Optional[UploadFile] = File(default=None),
+    audio_file: UploadFile = File(...),
+    plain_text: Optional[str] = Form(default=None),
+    whisper_model_size: str = Form(default="small"),
+    stream: bool = Form(default=False),
+    # JSON [[page, line], ...] per line of plain_text, from the client's transcript parser
+    line_map: Optional[str] = Form(default=None),
+    # JSON [{term, category, variants}, ...] from the client's active dictionaries
+    dictionary: Optional[str] = Form(default=None),
+    # JSON [speaker | null, ...] per line of plain_text, alongside line_map
+    line_speakers: Optional[str] = Form(default=None)
+):
+    # 1) Load transcript text (prefer RTF -> text; else plain text)
+    transcript_text = ""
+    if rtf_file is not None:
+        raw = await rtf_file.read()
+        try:
+            transcript_text = rtf_to_text(raw.decode('utf-8', errors='ignore'))
+        except Exception:
+            # fallback treat it as plain text
+            transcript_text = raw.decode('utf-8', errors='ignore')
+    elif plain_text:
+        transcript_text = plain_text
+    else:
+        return JSONResponse(status_code=400, content={"error": "No transcript provided (rtf_file or plain_text)."})
+
+    parsed_line_map = None
+    parsed_speakers = None
+    if line_map and rtf_file is None:
+        try:
+            parsed_line_map = json.loads(line_map)
+            if line_speakers:
+                parsed_speakers = json.loads(line_speakers)
+        except ValueError:
+            return JSONResponse(status_code=400, content={"error": "line_map and line_speakers must be JSON"})
+    else:
+        # A line map indexes the text exactly as sent, so only unmapped text is trimmed
+        transcript_text = transcript_text.strip()
+
+    terms: List[DictionaryTerm] = []
+    if dictionary:
+        try:
+            terms = [DictionaryTerm(**t) for t in json.loads(dictionary)]
+        except (ValueError, TypeError):
+            return JSONResponse(status_code=400, content={"error": "dictionary must be a JSON list of terms"})
+
+    audio_bytes = await audio_file.read()
+    events = _run_pipeline(transcript_text, audio_bytes, whisper_model_size, parsed_line_map, terms, parsed_speakers)
+
+    if stream:
+        # Newline-delimited JSON; a sync generator is run in FastAPI's threadpool
+        def ndjson():
+            try:
+                for event in events:
+                    yield json.dumps(event) + "\n"
+            except Exception as e:
+                yield json.dumps({"stage": "error", "error": str(e)}) + "\n"
+        return StreamingResponse(ndjson(), media_type="application/x-ndjson")
+
+    result = None
+    for event in events:
+        if event["stage"] == "done":
+            result = event["result"]
+    return result
+
+@app.post("/errata")
+def errata_endpoint(req: ErrataRequest):
+    return {
+        "docx_base64": base64.b64encode(build_errata_docx(req)).decode('ascii'),
+        "pdf_base64": base64.b64encode(build_errata_pdf(req)).decode('ascii'),
+        "filenames": {
+            "docx": "errata_sheet.docx",
+            "pdf": "errata_sheet.pdf"
+        }
+    }
+
+@app.post("/accuracy-certificate")
+def accuracy_certificate_endpoint(req: CertificateRequest):
+    return {
+        "pdf_base64": base64.b64encode(build_certificate_pdf(req)).decode('ascii'),
+        "html_base64": base64.b64encode(build_certificate_html(req).encode('utf-8')).decode('ascii'),
+        "filenames": {
+            "pdf": "accuracy_certificate.pdf",
+            "html": "accuracy_certificate.html"
+        }
     }
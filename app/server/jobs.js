@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+
+// Share of the overall progress bar each pipeline stage accounts for.
+// 'upload' is finished by the time a job exists (multer has the files).
+export const STAGES = [
+  { name: 'upload', weight: 10 },
+  { name: 'transcription', weight: 60 },
+  { name: 'alignment', weight: 15 },
+  { name: 'document', weight: 15 },
+];
+
+const JOB_TTL_MS = Number(process.env.JOB_TTL_MS || 60 * 60 * 1000);
+
+const jobs = new Map();
+
+const overallProgress = (stage, stageProgress) => {
+  let total = 0;
+  for (const s of STAGES) {
+    if (s.name === stage) return Math.round(total + s.weight * stageProgress);
+    total += s.weight;
+  }
+  return total;
+};
+
+// What clients see: everything except the listener set and the (large) result
+export const publicJob = (job) => ({
+  id: job.id,
+  status: job.status,
+  stage: job.stage,
+  progress: job.progress,
+  error: job.error,
+  // delivery state of the callback, for jobs started through the inbound webhook
+  callback: job.callback,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+});
+
+const emit = (job, event) => {
+  job.updatedAt = new Date().toISOString();
+  for (const listener of job.listeners) listener(event, publicJob(job));
+};
+
+export function createJob() {
+  const now = new Date().toISOString();
+  const job = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    stage: 'upload',
+    progress: overallProgress('upload', 1),
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    listeners: new Set(),
+  };
+  jobs.set(job.id, job);
+  return job;
+}
+
+export const getJob = (id) => jobs.get(id);
+
+export function updateJobProgress(job, stage, stageProgress) {
+  job.status = 'running';
+  job.stage = stage;
+  // never move the bar backwards if stages report out of order
+  job.progress = Math.max(job.progress, overallProgress(stage, stageProgress));
+  emit(job, 'progress');
+}
+
+const expire = (job) => {
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+};
+
+export function completeJob(job, result) {
+  job.status = 'completed';
+  job.stage = 'done';
+  job.progress = 100;
+  job.result = result;
+  emit(job, 'complete');
+  job.listeners.clear();
+  expire(job);
+}
+
+export function failJob(job, error) {
+  job.status = 'failed';
+  job.error = error;
+  emit(job, 'failed');
+  job.listeners.clear();
+  expire(job);
+}
+
+/** Subscribe to job events; returns an unsubscribe function. */
+export function subscribe(job, listener) {
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+}
@@ -0,0 +1,64 @@
+// Stand-in for an n8n webhook, for trying the N8N page's Test Workflow button
+// offline. It accepts the same multipart payload the real intake does and
+// answers with a description of what arrived.
+//
+//   ?status=500  answer with that status instead of 200
+//   ?delay=2000  wait that many milliseconds before answering
+import express from 'express';
+import multer from 'multer';
+import cors from 'cors';
+
+const app = express();
+const port = process.env.MOCK_WEBHOOK_PORT || 5678;
+const MAX_DELAY_MS = 60000;
+
+// The browser only shows response headers that are exposed through CORS
+app.use(cors({ exposedHeaders: ['X-Mock-Webhook', 'X-Request-Id', 'Content-Length'] }));
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 100 * 1024 * 1024, files: 10 } });
+
+const describeFile = (file) => ({
+  field: file.fieldname,
+  name: file.originalname,
+  mimetype: file.mimetype,
+  size: file.size,
+});
+
+const handleWebhook = (req, res) => {
+  const requestId = Math.random().toString(36).slice(2, 10);
+  const files = (req.files || []).map(describeFile);
+  const status = Number(req.query.status) || 200;
+  const delay = Math.min(Math.max(Number(req.query.delay) || 0, 0), MAX_DELAY_MS);
+
+  console.log(
+    `[${new Date().toISOString()}] ${req.method} ${req.originalUrl} -> ${status}` +
+      (files.length ? ` (${files.map(f => `${f.field}=${f.name} ${f.size}B`).join(', ')})` : '')
+  );
+
+  setTimeout(() => {
+    res.set({ 'X-Mock-Webhook': 'case-scribe', 'X-Request-Id': requestId });
+    if (status >= 400) {
+      return res.status(status).json({ error: `Simulated failure (status ${status})`, requestId });
+    }
+    res.status(status).json({
+      message: 'Workflow was started',
+      requestId,
+      path: req.params.path,
+      receivedAt: new Date().toISOString(),
+      fields: req.body || {},
+      files,
+    });
+  }, delay);
+};
+
+// n8n serves production webhooks under /webhook and the editor's test URLs under /webhook-test
+app.post(['/webhook/:path', '/webhook-test/:path'], upload.any(), handleWebhook);
+
+app.use((err, req, res, next) => {
+  if (err instanceof multer.MulterError) return res.status(413).json({ error: err.message });
+  next(err);
+});
+
+app.listen(port, () => {
+  console.log(`Mock webhook listening on http://localhost:${port}/webhook/transcript-analysis`);
+});
@@ -1,55 +1,524 @@
-
 import express from 'express';
 import multer from 'multer';
 import cors from 'cors';
 import fetch from 'node-fetch';
 import FormData from 'form-data';
-import os from 'os';
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  createJob,
+  getJob,
+  publicJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+  subscribe,
+} from './jobs.js';
+import {
+  MAX_CHUNK_SIZE,
+  MAX_UPLOAD_SIZE,
+  MIN_CHUNK_SIZE,
+  completeUpload,
+  createUpload,
+  discardUpload,
+  expectedChunkLength,
+  getUpload,
+  missingChunks,
+  publicUpload,
+  uploadedFile,
+  writeChunk,
+} from './uploads.js';
+import {
+  RETAINED_TTL_MS,
+  TEMP_RETENTION_MS,
+  claimTempFiles,
+  deleteRetained,
+  encryptedStoreEnabled,
+  listRetained,
+  listTempFiles,
+  restoreRetained,
+  retainFiles,
+  tempPath,
+} from './storage.js';
+import { createDelivery, deliverCallback, downloadFile, urlProblem } from './webhooks.js';
 
 const app = express();
 const port = process.env.PORT || 8787;
 const ALIGN_URL = process.env.ALIGN_URL || 'http://localhost:8000/align';
+const ERRATA_URL = process.env.ERRATA_URL || ALIGN_URL.replace(/\/align$/, '/errata');
+const CERTIFICATE_URL = process.env.CERTIFICATE_URL || ALIGN_URL.replace(/\/align$/, '/accuracy-certificate');
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const WEBHOOK_TOKEN = process.env.WEBHOOK_TOKEN;
+// Callbacks are signed with their own secret when one is set
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || WEBHOOK_TOKEN;
 
 app.use(cors());
 app.use(express.json());
 
-const upload = multer({ dest: os.tmpdir() });
+const upload = multer({ dest: tempPath('multipart') });
+
+const analyzeUpload = upload.fields([
+  { name: 'rtx', maxCount: 1 }, // we keep the field name for compatibility
+  { name: 'rtf', maxCount: 1 },
+  { name: 'audio', maxCount: 1 }
+]);
+
+function getUploadedFiles(req) {
+  // Files sent earlier through /api/uploads are referenced by upload id instead
+  const rtxUpload = req.body?.rtx_upload;
+  const audioUpload = req.body?.audio_upload;
+  const rtfFile = req.files?.rtx?.[0] || req.files?.rtf?.[0] || (rtxUpload && uploadedFile(rtxUpload)); // accept rtx or rtf field
+  const audioFile = req.files?.audio?.[0] || (audioUpload && uploadedFile(audioUpload));
+  const unfinishedUpload = [rtxUpload, audioUpload].find(id => id && !uploadedFile(id));
+  // Sessions to discard with the files once the analysis is done
+  const uploadIds = [rtxUpload, audioUpload].filter(id => id && uploadedFile(id));
+  // Clients that parsed the transcript send its text and a [page, line] map per line
+  const plainText = req.body?.plain_text;
+  const lineMap = req.body?.line_map;
+  const lineSpeakers = req.body?.line_speakers;
+  // JSON list of the client's active dictionary terms
+  const dictionary = req.body?.dictionary;
+  // 'true' seals the files into the encrypted store so the project can be reprocessed later
+  const retain = req.body?.retain === 'true';
+  return { rtfFile, audioFile, plainText, lineMap, lineSpeakers, dictionary, unfinishedUpload, uploadIds, retain };
+}
+
+// Files retained by an earlier request are decrypted back into temp files by id
+async function getRequestFiles(req) {
+  const files = getUploadedFiles(req);
+  const retainedId = req.body?.retained_id;
+  if (!retainedId) return files;
+  const restored = await restoreRetained(retainedId);
+  if (!restored) return { ...files, unknownRetained: retainedId };
+  // a dictionary sent with the reprocessing request replaces the stored one
+  return { ...files, ...restored, dictionary: files.dictionary || restored.dictionary, retain: false };
+}
+
+const uploadPaths = (files) => files.uploadIds.map((id) => uploadedFile(id)?.path);
+
+// Claims the temp files this request brought in: multipart parts and restored
+// copies. The returned function deletes them. Chunked uploads are left out, so
+// a request rejected with a 400 can be fixed and resent with the same upload ids.
+function claimRequestFiles(req, files) {
+  const sessions = uploadPaths(files);
+  const multipart = Object.values(req.files ?? {}).flat().map((f) => f.path);
+  return claimTempFiles(
+    [...multipart, files.rtfFile?.path, files.audioFile?.path].filter((p) => p && !sessions.includes(p))
+  );
+}
+
+// Hands the request's chunked uploads to the analysis along with its other
+// files: the returned function also deletes them and forgets their sessions.
+function takeUploads(files, release) {
+  const releaseUploads = claimTempFiles(uploadPaths(files));
+  return async () => {
+    for (const id of files.uploadIds) discardUpload(id);
+    await Promise.all([release(), releaseUploads()]);
+  };
+}
+
+const hasTranscript = ({ rtfFile, plainText }) => Boolean(rtfFile || plainText);
+
+// The 400 message for an analysis request that can't run, or null
+function requestError(files) {
+  if (files.unknownRetained) return `Retained files ${files.unknownRetained} not found`;
+  if (files.unfinishedUpload) return `Upload ${files.unfinishedUpload} is unknown or not complete`;
+  if (files.retain && !encryptedStoreEnabled()) return 'Retaining files needs the encrypted store: set STORE_KEY';
+  if (!hasTranscript(files) || !files.audioFile) return 'Missing files: rtf/rtx and audio are required';
+  return null;
+}
+
+function buildAlignForm({ rtfFile, audioFile, plainText, lineMap, lineSpeakers, dictionary }, { stream = false } = {}) {
+  const form = new FormData();
+  if (plainText) {
+    // the parsed text is what page:line locations refer to, so it wins over the raw file
+    form.append('plain_text', plainText);
+    if (lineMap) form.append('line_map', lineMap);
+    if (lineSpeakers) form.append('line_speakers', lineSpeakers);
+  } else {
+    form.append('rtf_file', fs.createReadStream(rtfFile.path), { filename: rtfFile.originalname });
+  }
+  form.append('audio_file', fs.createReadStream(audioFile.path), { filename: audioFile.originalname });
+  form.append('whisper_model_size', process.env.WHISPER_MODEL || 'small');
+  if (dictionary) form.append('dictionary', dictionary);
+  if (stream) form.append('stream', 'true');
+  return form;
+}
+
+// Runs the align service in streaming mode, forwarding its NDJSON stage events to the job
+async function runAlignJob(job, files, release) {
+  try {
+    const resp = await fetch(ALIGN_URL, { method: 'POST', body: buildAlignForm(files, { stream: true }) });
+    if (!resp.ok) {
+      const t = await resp.text();
+      return failJob(job, `Align service error: ${t}`);
+    }
+
+    // streaming decode keeps a UTF-8 character split across chunks intact
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of resp.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newline;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        const event = JSON.parse(line);
+        if (event.stage === 'done') return completeJob(job, event.result);
+        if (event.stage === 'error') return failJob(job, event.error);
+        updateJobProgress(job, event.stage, event.progress);
+      }
+    }
+    failJob(job, 'Align service closed the stream before finishing');
+  } catch (err) {
+    console.error(err);
+    failJob(job, String(err));
+  } finally {
+    await release();
+  }
+}
+
+// Downloads a file given by URL and claims it like the request's own temp files
+async function fetchRequestFile(url, releases) {
+  const file = await downloadFile(url);
+  releases.push(claimTempFiles([file.path]));
+  return file;
+}
+
+// Jobs started through the inbound webhook: fetch the files given by URL, run
+// the analysis, then report the outcome to the caller's callback URL
+async function runWebhookJob(job, files, release, { transcriptUrl, audioUrl, reference }) {
+  const releases = [release];
+  const releaseAll = async () => {
+    await Promise.all(releases.map((fn) => fn()));
+  };
+  let retained = null;
+  try {
+    if (transcriptUrl) files.rtfFile = await fetchRequestFile(transcriptUrl, releases);
+    if (audioUrl) files.audioFile = await fetchRequestFile(audioUrl, releases);
+    if (files.retain) retained = await retainFiles(files);
+  } catch (err) {
+    console.error(err);
+    failJob(job, `Could not fetch files: ${err.message}`);
+    await releaseAll();
+  }
+  if (job.status !== 'failed') await runAlignJob(job, files, releaseAll);
+  if (!job.callback) return;
+
+  const event = job.status === 'completed' ? 'analysis.completed' : 'analysis.failed';
+  await deliverCallback(job.callback, event, {
+    event,
+    jobId: job.id,
+    reference,
+    job: publicJob(job),
+    result: job.result,
+    retainedId: retained?.id,
+  }, WEBHOOK_SECRET);
+}
 
 app.get('/health', (_req, res) => {
   res.json({ ok: true, align_url: ALIGN_URL });
 });
 
-app.post('/api/analyze', upload.fields([
-  { name: 'rtx', maxCount: 1 }, // we keep the field name for compatibility
-  { name: 'rtf', maxCount: 1 },
-  { name: 'audio', maxCount: 1 }
-]), async (req, res) => {
+// Resumable chunked uploads: open a session, PUT each chunk, then complete it.
+// The upload id then stands in for the file in /api/analyze and /api/jobs.
+app.post('/api/uploads', async (req, res) => {
   try {
-    const rtfFile = req.files?.rtx?.[0] || req.files?.rtf?.[0]; // accept rtx or rtf field
-    const audioFile = req.files?.audio?.[0];
-    if (!rtfFile || !audioFile) {
-      return res.status(400).json({ error: 'Missing files: rtf/rtx and audio are required' });
+    const { filename, size, chunkSize } = req.body ?? {};
+    if (typeof filename !== 'string' || !filename || !Number.isSafeInteger(size) || size <= 0) {
+      return res.status(400).json({ error: 'filename and a positive integer size are required' });
+    }
+    if (size > MAX_UPLOAD_SIZE) {
+      return res.status(413).json({ error: 'File too large', details: `Limit is ${MAX_UPLOAD_SIZE} bytes` });
     }
+    if (chunkSize !== undefined && (!Number.isSafeInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE)) {
+      return res.status(400).json({ error: `chunkSize must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes` });
+    }
+    const upload = await createUpload({ filename, size, chunkSize });
+    res.status(201).json({ upload: publicUpload(upload) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  }
+});
 
-    const form = new FormData();
-    form.append('rtf_file', fs.createReadStream(rtfFile.path), { filename: rtfFile.originalname });
-    form.append('audio_file', fs.createReadStream(audioFile.path), { filename: audioFile.originalname });
-    form.append('whisper_model_size', process.env.WHISPER_MODEL || 'small');
+// Which chunks the server already has, for resuming after a dropped connection
+app.get('/api/uploads/:id', (req, res) => {
+  const upload = getUpload(req.params.id);
+  if (!upload) return res.status(404).json({ error: 'Upload not found' });
+  res.json({ upload: publicUpload(upload) });
+});
 
-    const resp = await fetch(ALIGN_URL, { method: 'POST', body: form });
+app.put(
+  '/api/uploads/:id/chunks/:index',
+  express.raw({ type: () => true, limit: MAX_CHUNK_SIZE }),
+  async (req, res) => {
+    try {
+      const upload = getUpload(req.params.id);
+      if (!upload) return res.status(404).json({ error: 'Upload not found' });
+      if (upload.status === 'complete') return res.status(409).json({ error: 'Upload already complete' });
+      const index = Number(req.params.index);
+      if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+        return res.status(400).json({ error: `Chunk index must be 0-${upload.totalChunks - 1}` });
+      }
+      const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const expected = expectedChunkLength(upload, index);
+      if (data.length !== expected) {
+        return res.status(400).json({ error: 'Wrong chunk length', details: `expected ${expected} bytes, got ${data.length}` });
+      }
+      await writeChunk(upload, index, data);
+      res.json({ upload: publicUpload(upload) });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Server error', details: String(err) });
+    }
+  }
+);
+
+app.post('/api/uploads/:id/complete', (req, res) => {
+  const upload = getUpload(req.params.id);
+  if (!upload) return res.status(404).json({ error: 'Upload not found' });
+  const missing = missingChunks(upload);
+  if (missing.length) {
+    return res.status(409).json({ error: 'Upload incomplete', details: `missing chunks ${missing.slice(0, 20).join(', ')}` });
+  }
+  completeUpload(upload);
+  res.json({ upload: publicUpload(upload) });
+});
+
+app.post('/api/analyze', analyzeUpload, async (req, res) => {
+  let release;
+  try {
+    const files = await getRequestFiles(req);
+    release = claimRequestFiles(req, files);
+    const problem = requestError(files);
+    if (problem) return res.status(400).json({ error: problem });
+    release = takeUploads(files, release);
+    const retained = files.retain ? await retainFiles(files) : null;
+
+    const resp = await fetch(ALIGN_URL, { method: 'POST', body: buildAlignForm(files) });
     if (!resp.ok) {
       const t = await resp.text();
-      return res.status(502).json({ error: 'Align service error', details: t });
+      return res.status(502).json({ error: 'Align service error', details: t, retainedId: retained?.id });
     }
     const data = await resp.json();
-    res.json(data);
+    res.json(retained ? { ...data, retainedId: retained.id } : data);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  } finally {
+    await release?.();
+  }
+});
+
+// Errata sheet (DOCX + PDF) from reviewer-accepted corrections
+app.post('/api/errata', async (req, res) => {
+  try {
+    if (!Array.isArray(req.body?.entries) || req.body.entries.length === 0) {
+      return res.status(400).json({ error: 'No errata entries: accept or edit corrections first' });
+    }
+    const resp = await fetch(ERRATA_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(req.body),
+    });
+    if (!resp.ok) {
+      const t = await resp.text();
+      return res.status(502).json({ error: 'Align service error', details: t });
+    }
+    res.json(await resp.json());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  }
+});
+
+// Accuracy certificate (PDF + HTML) from an analysis' word accuracy report
+app.post('/api/accuracy-certificate', async (req, res) => {
+  try {
+    if (!req.body?.accuracy || req.body.accuracy.wer == null) {
+      return res.status(400).json({ error: 'No accuracy report: the analysis has no audio words to compare against' });
+    }
+    const resp = await fetch(CERTIFICATE_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(req.body),
+    });
+    if (!resp.ok) {
+      const t = await resp.text();
+      return res.status(502).json({ error: 'Align service error', details: t });
+    }
+    res.json(await resp.json());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  }
+});
+
+// Compares the request's `Authorization: Bearer` token in constant time
+function hasBearerToken(req, token) {
+  const given = Buffer.from(req.get('authorization')?.replace(/^Bearer /, '') ?? '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Checked before multer, so unauthenticated uploads never reach the disk
+function requireWebhookToken(req, res, next) {
+  if (!WEBHOOK_TOKEN) return res.status(404).json({ error: 'Inbound webhook disabled: set WEBHOOK_TOKEN' });
+  if (!hasBearerToken(req, WEBHOOK_TOKEN)) return res.status(401).json({ error: 'Unauthorized' });
+  next();
+}
+
+// JSON callers may send line maps, dictionaries and flags as values; the
+// analysis expects them as the strings a multipart form would carry
+const formFields = (body) =>
+  Object.fromEntries(
+    Object.entries(body ?? {}).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+  );
+
+// The 400 message for an inbound webhook request that can't run, or null
+function webhookRequestError(body, files) {
+  for (const field of ['transcript_url', 'audio_url', 'callback_url']) {
+    const problem = body[field] !== undefined && urlProblem(body[field]);
+    if (problem) return `${field} ${problem}`;
+  }
+  if (body.reference !== undefined && body.reference.length > 200) return 'reference must be at most 200 characters';
+  // a URL to fetch stands in for the file until the job downloads it
+  return requestError({
+    ...files,
+    rtfFile: files.rtfFile || body.transcript_url,
+    audioFile: files.audioFile || body.audio_url,
+  });
+}
+
+// For automation tools and case management systems: takes the same fields as
+// /api/jobs, or transcript_url/audio_url to fetch, and POSTs the outcome to
+// callback_url when the job finishes
+app.post('/api/webhooks/analyze', requireWebhookToken, analyzeUpload, async (req, res) => {
+  let release;
+  try {
+    req.body = formFields(req.body);
+    const files = await getRequestFiles(req);
+    release = claimRequestFiles(req, files);
+    const problem = webhookRequestError(req.body, files);
+    if (problem) {
+      await release();
+      return res.status(400).json({ error: problem });
+    }
+    release = takeUploads(files, release);
+    const { transcript_url: transcriptUrl, audio_url: audioUrl, callback_url: callbackUrl, reference } = req.body;
+    const job = createJob();
+    if (callbackUrl) job.callback = createDelivery(callbackUrl);
+    // the job fetches any URLs, deletes the files when it finishes and then calls back
+    runWebhookJob(job, files, release, {
+      // a file sent in the request wins over a URL for the same slot
+      transcriptUrl: files.rtfFile || files.plainText ? undefined : transcriptUrl,
+      audioUrl: files.audioFile ? undefined : audioUrl,
+      reference,
+    });
+    res.status(202).json({ jobId: job.id, job: publicJob(job) });
+  } catch (err) {
+    console.error(err);
+    await release?.();
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  }
+});
+
+// Background variant of /api/analyze: responds immediately with a job id
+app.post('/api/jobs', analyzeUpload, async (req, res) => {
+  let release;
+  try {
+    const files = await getRequestFiles(req);
+    release = claimRequestFiles(req, files);
+    const problem = requestError(files);
+    if (problem) {
+      await release();
+      return res.status(400).json({ error: problem });
+    }
+    release = takeUploads(files, release);
+    const retained = files.retain ? await retainFiles(files) : null;
+    const job = createJob();
+    // the job deletes the files when it finishes
+    runAlignJob(job, files, release);
+    res.status(202).json({ jobId: job.id, job: publicJob(job), retainedId: retained?.id });
+  } catch (err) {
+    console.error(err);
+    await release?.();
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  }
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+  res.json({ job: publicJob(job), result: job.result });
+});
+
+// Server-Sent Events: 'progress' while running, then one 'complete' or 'failed'
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  if (job.status === 'completed' || job.status === 'failed') {
+    send(job.status === 'completed' ? 'complete' : 'failed', publicJob(job));
+    return res.end();
+  }
+  send('progress', publicJob(job));
+
+  // comment lines keep proxies from closing an idle stream during long transcriptions
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  const unsubscribe = subscribe(job, (event, data) => {
+    send(event, data);
+    if (event !== 'progress') res.end();
+  });
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Admin routes need `Authorization: Bearer $ADMIN_TOKEN`, and are off without it
+function requireAdmin(req, res, next) {
+  if (!ADMIN_TOKEN) return res.status(404).json({ error: 'Admin API disabled: set ADMIN_TOKEN' });
+  if (!hasBearerToken(req, ADMIN_TOKEN)) return res.status(401).json({ error: 'Unauthorized' });
+  next();
+}
+
+// What the server is holding on disk: temp files awaiting analysis or the sweep, and retained projects
+app.get('/api/admin/storage', requireAdmin, async (_req, res) => {
+  try {
+    const [retained, tempFiles] = await Promise.all([listRetained(), listTempFiles()]);
+    res.json({
+      encryptedStore: encryptedStoreEnabled(),
+      tempRetentionMs: TEMP_RETENTION_MS,
+      retainedTtlMs: RETAINED_TTL_MS,
+      retained,
+      temp: { files: tempFiles, bytes: tempFiles.reduce((sum, f) => sum + f.bytes, 0) },
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error', details: String(err) });
+  }
+});
+
+app.delete('/api/admin/storage/retained/:id', requireAdmin, async (req, res) => {
+  try {
+    if (!(await deleteRetained(req.params.id))) return res.status(404).json({ error: 'Retained files not found' });
+    res.status(204).end();
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: 'Server error', details: String(err) });
   }
 });
 
-import fs from 'fs';
 app.listen(port, () => {
   console.log(`Case Scribe backend running on http://localhost:${port}`);
 });
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+// Everything the server writes lives in one of two places:
+//   TEMP_DIR  - request files (multipart, chunked uploads, decrypted copies).
+//               Deleted once their analysis is done, or by the sweep after
+//               TEMP_RETENTION_MS if a request never finishes.
+//   STORE_DIR - the optional encrypted store. Files a client asked to retain
+//               are sealed with AES-256-GCM under STORE_KEY and kept for
+//               RETAINED_TTL_MS so the project can be reprocessed.
+
+export const TEMP_DIR = process.env.TEMP_DIR || path.join(os.tmpdir(), 'case-scribe');
+const STORE_DIR = process.env.STORE_DIR || path.join(process.cwd(), 'data', 'retained');
+export const TEMP_RETENTION_MS = Number(process.env.TEMP_RETENTION_MS || 24 * 60 * 60 * 1000);
+export const RETAINED_TTL_MS = Number(process.env.RETAINED_TTL_MS || 30 * 24 * 60 * 60 * 1000);
+
+const STORE_KEY = process.env.STORE_KEY ? Buffer.from(process.env.STORE_KEY, 'base64') : null;
+if (STORE_KEY && STORE_KEY.length !== 32) {
+  throw new Error('STORE_KEY must be 32 bytes, base64 encoded (e.g. `openssl rand -base64 32`)');
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const RETAINED_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const encryptedStoreEnabled = () => Boolean(STORE_KEY);
+
+export const tempPath = (...parts) => path.join(TEMP_DIR, ...parts);
+
+// Temp files an analysis is still reading; the sweep leaves them alone however old they are
+const inUse = new Set();
+
+const isTempFile = (file) => path.resolve(file).startsWith(path.resolve(TEMP_DIR) + path.sep);
+
+/** Mark temp files as in use. The returned function deletes them. */
+export function claimTempFiles(paths) {
+  const claimed = [...new Set(paths.filter((p) => p && isTempFile(p)).map((p) => path.resolve(p)))];
+  for (const p of claimed) inUse.add(p);
+  return async () => {
+    await Promise.all(claimed.map(async (p) => {
+      inUse.delete(p);
+      await fs.promises.rm(p, { force: true }).catch((err) => console.error(err));
+    }));
+  };
+}
+
+// Streams are sealed as iv | ciphertext | auth tag
+async function encryptFile(src, dest) {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', STORE_KEY, iv);
+  await pipeline(
+    fs.createReadStream(src),
+    cipher,
+    async function* (source) {
+      yield iv;
+      for await (const chunk of source) yield chunk;
+      yield cipher.getAuthTag();
+    },
+    fs.createWriteStream(dest, { mode: 0o600 })
+  );
+}
+
+async function decryptFile(src, dest) {
+  const { size } = await fs.promises.stat(src);
+  const handle = await fs.promises.open(src, 'r');
+  const iv = Buffer.alloc(IV_BYTES);
+  const tag = Buffer.alloc(TAG_BYTES);
+  try {
+    await handle.read(iv, 0, IV_BYTES, 0);
+    await handle.read(tag, 0, TAG_BYTES, size - TAG_BYTES);
+  } finally {
+    await handle.close();
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', STORE_KEY, iv);
+  decipher.setAuthTag(tag);
+  await pipeline(
+    fs.createReadStream(src, { start: IV_BYTES, end: size - TAG_BYTES - 1 }),
+    decipher,
+    fs.createWriteStream(dest, { mode: 0o600 })
+  );
+}
+
+const encryptJson = (value) => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', STORE_KEY, iv);
+  const body = Buffer.concat([cipher.update(JSON.stringify(value)), cipher.final()]);
+  return Buffer.concat([iv, body, cipher.getAuthTag()]);
+};
+
+const decryptJson = (sealed) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', STORE_KEY, sealed.subarray(0, IV_BYTES));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  const body = Buffer.concat([decipher.update(sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES)), decipher.final()]);
+  return JSON.parse(body.toString());
+};
+
+const retainedDir = (id) => path.join(STORE_DIR, id);
+
+const readManifest = async (id) => {
+  if (!RETAINED_ID.test(id)) return null;
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(retainedDir(id), 'manifest.json'), 'utf8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+};
+
+/**
+ * Seal a request's files and transcript fields into the encrypted store.
+ * The manifest holds only what the admin listing shows; file names and the
+ * transcript text are encrypted with the files.
+ */
+export async function retainFiles({ rtfFile, audioFile, plainText, lineMap, lineSpeakers, dictionary }) {
+  const id = crypto.randomUUID();
+  const dir = retainedDir(id);
+  await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+  try {
+    const secret = {
+      fields: { plainText, lineMap, lineSpeakers, dictionary },
+      filenames: { rtf: rtfFile?.originalname, audio: audioFile.originalname },
+    };
+    await fs.promises.writeFile(path.join(dir, 'fields.enc'), encryptJson(secret), { mode: 0o600 });
+    if (rtfFile) await encryptFile(rtfFile.path, path.join(dir, 'rtf.enc'));
+    await encryptFile(audioFile.path, path.join(dir, 'audio.enc'));
+
+    const now = Date.now();
+    const manifest = {
+      id,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + RETAINED_TTL_MS).toISOString(),
+      files: {
+        ...(rtfFile && { rtf: { bytes: rtfFile.size } }),
+        audio: { bytes: audioFile.size },
+      },
+    };
+    await fs.promises.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2), { mode: 0o600 });
+    return manifest;
+  } catch (err) {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+/** Decrypt retained files into TEMP_DIR, in the shape getUploadedFiles returns, or null if unknown. */
+export async function restoreRetained(id) {
+  const manifest = await readManifest(id);
+  if (!manifest) return null;
+  const dir = retainedDir(id);
+  const { fields, filenames } = decryptJson(await fs.promises.readFile(path.join(dir, 'fields.enc')));
+
+  await fs.promises.mkdir(tempPath('restored'), { recursive: true });
+  // Every destination, so a failure part way leaves no plaintext behind
+  const written = [];
+  const restore = async (name, originalname) => {
+    const dest = tempPath('restored', `${crypto.randomUUID()}-${name}`);
+    written.push(dest);
+    await decryptFile(path.join(dir, `${name}.enc`), dest);
+    return { path: dest, originalname, size: manifest.files[name].bytes };
+  };
+  try {
+    return {
+      ...fields,
+      rtfFile: manifest.files.rtf ? await restore('rtf', filenames.rtf) : undefined,
+      audioFile: await restore('audio', filenames.audio),
+    };
+  } catch (err) {
+    await Promise.all(written.map((file) => fs.promises.rm(file, { force: true })));
+    throw err;
+  }
+}
+
+export async function deleteRetained(id) {
+  if (!(await readManifest(id))) return false;
+  await fs.promises.rm(retainedDir(id), { recursive: true, force: true });
+  return true;
+}
+
+const listDir = async (dir) => {
+  try {
+    return await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (err) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+};
+
+export async function listRetained() {
+  const manifests = await Promise.all(
+    (await listDir(STORE_DIR)).filter((e) => e.isDirectory()).map((e) => readManifest(e.name))
+  );
+  return manifests.filter(Boolean).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function listTempFiles() {
+  const files = [];
+  const walk = async (dir) => {
+    for (const entry of await listDir(dir)) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+        continue;
+      }
+      const stat = await fs.promises.stat(full).catch(() => null);
+      if (!stat) continue;
+      files.push({
+        path: path.relative(TEMP_DIR, full),
+        bytes: stat.size,
+        modifiedAt: stat.mtime.toISOString(),
+        inUse: inUse.has(path.resolve(full)),
+      });
+    }
+  };
+  await walk(TEMP_DIR);
+  return files;
+}
+
+// Deletes temp files nobody has touched within the retention period (a crashed
+// or abandoned request) and retained projects past their expiry
+async function sweep() {
+  const cutoff = Date.now() - TEMP_RETENTION_MS;
+  for (const file of await listTempFiles()) {
+    if (file.inUse || Date.parse(file.modifiedAt) >= cutoff) continue;
+    await fs.promises.rm(path.join(TEMP_DIR, file.path), { force: true });
+  }
+  for (const manifest of await listRetained()) {
+    if (Date.parse(manifest.expiresAt) <= Date.now()) await deleteRetained(manifest.id);
+  }
+}
+
+const runSweep = () => sweep().catch((err) => console.error('Storage sweep failed', err));
+runSweep();
+setInterval(runSweep, Math.min(TEMP_RETENTION_MS, 60 * 60 * 1000)).unref();
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { TEMP_RETENTION_MS, tempPath } from './storage.js';
+
+// Resumable uploads: the client opens a session with the file's size, sends
+// fixed-size chunks in any order (retrying or resuming as needed), then
+// completes the session. Chunks are written straight to their offset in a
+// preallocated file, so a completed upload is an ordinary file on disk.
+
+export const MIN_CHUNK_SIZE = 256 * 1024;
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+export const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE || 20 * 1024 * 1024 * 1024);
+
+const UPLOAD_DIR = tempPath('uploads');
+
+const uploads = new Map();
+
+// What clients see: enough to resume, without the server's file path
+export const publicUpload = (upload) => ({
+  id: upload.id,
+  filename: upload.filename,
+  size: upload.size,
+  chunkSize: upload.chunkSize,
+  totalChunks: upload.totalChunks,
+  receivedChunks: [...upload.received].sort((a, b) => a - b),
+  status: upload.status,
+  createdAt: upload.createdAt,
+  updatedAt: upload.updatedAt,
+});
+
+export async function createUpload({ filename, size, chunkSize = DEFAULT_CHUNK_SIZE }) {
+  await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+  const now = new Date().toISOString();
+  const id = crypto.randomUUID();
+  const upload = {
+    id,
+    filename,
+    size,
+    chunkSize,
+    totalChunks: Math.ceil(size / chunkSize),
+    received: new Set(),
+    status: 'uploading',
+    path: tempPath('uploads', id),
+    createdAt: now,
+    updatedAt: now,
+    lastActivity: Date.now(),
+  };
+  // A sparse file of the final size, so chunks can land in any order
+  const handle = await fs.promises.open(upload.path, 'w');
+  try {
+    await handle.truncate(size);
+  } finally {
+    await handle.close();
+  }
+  uploads.set(id, upload);
+  return upload;
+}
+
+export const getUpload = (id) => uploads.get(id);
+
+/** Bytes chunk `index` must contain; only the last chunk may be short. */
+export const expectedChunkLength = (upload, index) =>
+  Math.min(upload.chunkSize, upload.size - index * upload.chunkSize);
+
+const touch = (upload) => {
+  upload.updatedAt = new Date().toISOString();
+  upload.lastActivity = Date.now();
+};
+
+export async function writeChunk(upload, index, data) {
+  const handle = await fs.promises.open(upload.path, 'r+');
+  try {
+    await handle.write(data, 0, data.length, index * upload.chunkSize);
+  } finally {
+    await handle.close();
+  }
+  // only counted once it is on disk, so a failed write is simply sent again
+  upload.received.add(index);
+  touch(upload);
+}
+
+export const missingChunks = (upload) => {
+  const missing = [];
+  for (let i = 0; i < upload.totalChunks; i++) {
+    if (!upload.received.has(i)) missing.push(i);
+  }
+  return missing;
+};
+
+export function completeUpload(upload) {
+  upload.status = 'complete';
+  touch(upload);
+}
+
+/** A completed upload in the shape multer gives files, or null. */
+export function uploadedFile(id) {
+  const upload = uploads.get(id);
+  if (!upload || upload.status !== 'complete') return null;
+  touch(upload);
+  return { path: upload.path, originalname: upload.filename, size: upload.size };
+}
+
+/** Forget a session and delete its file, once an analysis has used it. */
+export function discardUpload(id) {
+  const upload = uploads.get(id);
+  if (!upload) return;
+  uploads.delete(id);
+  fs.promises.rm(upload.path, { force: true }).catch((err) => console.error(err));
+}
+
+// Sessions idle for the temp retention period are dropped along with their file
+const expireIdleUploads = () => {
+  const cutoff = Date.now() - TEMP_RETENTION_MS;
+  for (const upload of uploads.values()) {
+    if (upload.lastActivity < cutoff) discardUpload(upload.id);
+  }
+};
+
+setInterval(expireIdleUploads, Math.min(TEMP_RETENTION_MS, 60 * 60 * 1000)).unref();
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import fetch from 'node-fetch';
+import { tempPath } from './storage.js';
+import { MAX_UPLOAD_SIZE } from './uploads.js';
+
+// Inbound webhook support: automation tools hand over files by URL instead of
+// uploading them, and hear about the outcome through a callback URL. Callbacks
+// are signed so the receiver can tell they came from this server:
+//
+//   X-Case-Scribe-Timestamp: <unix seconds>
+//   X-Case-Scribe-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//
+// Failed deliveries are retried with exponential backoff. Every attempt of one
+// delivery carries the same X-Case-Scribe-Delivery id.
+//
+// Download and callback URLs come from the caller, so they may not reach this
+// machine or its network: private, loopback and link-local addresses (cloud
+// metadata at 169.254.169.254 included) are refused when the name resolves,
+// for every redirect too. WEBHOOK_ALLOWED_HOSTS, a comma-separated list of
+// host names, limits URLs to those hosts instead, wherever they resolve.
+
+const CALLBACK_ATTEMPTS = Number(process.env.CALLBACK_ATTEMPTS || 5);
+const CALLBACK_RETRY_MS = Number(process.env.CALLBACK_RETRY_MS || 10000);
+const CALLBACK_TIMEOUT_MS = 15000;
+const DOWNLOAD_TIMEOUT_MS = Number(process.env.DOWNLOAD_TIMEOUT_MS || 60 * 60 * 1000);
+
+const DOWNLOAD_DIR = tempPath('downloads');
+
+const ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+]) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+// Set on the error when a URL is refused; retrying won't change the answer
+const BLOCKED_URL = 'ERR_BLOCKED_URL';
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges
+const isBlockedAddress = (address) => BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// [::1] → ::1
+const hostOf = (url) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+/** Why a caller-supplied URL may not be fetched or called back, or null if it may. */
+export const urlProblem = (value) => {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'must be an http(s) URL';
+  }
+  if (typeof value !== 'string' || !['http:', 'https:'].includes(url.protocol)) return 'must be an http(s) URL';
+  const host = hostOf(url);
+  if (ALLOWED_HOSTS.length) return ALLOWED_HOSTS.includes(host) ? null : 'must be on a host in WEBHOOK_ALLOWED_HOSTS';
+  if (net.isIP(host) && isBlockedAddress(host)) return 'must not point at a private, loopback or link-local address';
+  return null;
+};
+
+// dns.lookup that refuses blocked addresses, so a name checked once can't resolve somewhere internal later
+const guardedLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err);
+    const addresses = Array.isArray(address) ? address : [{ address }];
+    const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+    if (blocked) {
+      const error = new Error(`${hostname} resolves to ${blocked.address}, a private, loopback or link-local address`);
+      return callback(Object.assign(error, { code: BLOCKED_URL }));
+    }
+    callback(null, address, family);
+  });
+};
+
+const guardedAgents = {
+  'http:': new http.Agent({ lookup: guardedLookup }),
+  'https:': new https.Agent({ lookup: guardedLookup }),
+};
+
+// node-fetch asks for an agent on every request, redirects included, so each hop is checked
+const agentFor = (url) => {
+  const problem = urlProblem(url.href);
+  if (problem) throw Object.assign(new Error(`${url.href} ${problem}`), { code: BLOCKED_URL });
+  return ALLOWED_HOSTS.length ? undefined : guardedAgents[url.protocol];
+};
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// "attachment; filename=depo.rtf" → depo.rtf, falling back to the URL's last path segment
+const downloadName = (url, disposition) => {
+  const match = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (match) return path.basename(decodeURIComponent(match[1]));
+  return path.basename(decodeURIComponent(new URL(url).pathname)) || 'download';
+};
+
+/**
+ * Fetch a file into TEMP_DIR, in the shape multer gives uploaded files.
+ * A partial file is removed if the download fails or exceeds MAX_UPLOAD_SIZE.
+ */
+export async function downloadFile(url) {
+  await fs.promises.mkdir(DOWNLOAD_DIR, { recursive: true });
+  const dest = path.join(DOWNLOAD_DIR, crypto.randomUUID());
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+  try {
+    const resp = await fetch(url, { agent: agentFor, signal: controller.signal });
+    if (!resp.ok) throw new Error(`${url} answered ${resp.status}`);
+    if (Number(resp.headers.get('content-length')) > MAX_UPLOAD_SIZE) {
+      throw new Error(`${url} is larger than ${MAX_UPLOAD_SIZE} bytes`);
+    }
+    let size = 0;
+    await pipeline(
+      resp.body,
+      async function* (source) {
+        for await (const chunk of source) {
+          size += chunk.length;
+          if (size > MAX_UPLOAD_SIZE) throw new Error(`${url} is larger than ${MAX_UPLOAD_SIZE} bytes`);
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(dest)
+    );
+    return {
+      path: dest,
+      originalname: downloadName(url, resp.headers.get('content-disposition')),
+      mimetype: resp.headers.get('content-type') || 'application/octet-stream',
+      size,
+    };
+  } catch (err) {
+    await fs.promises.rm(dest, { force: true });
+    if (controller.signal.aborted) throw new Error(`Timed out downloading ${url}`);
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export const signPayload = (secret, timestamp, body) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Worth another try: no response, a timeout, rate limiting or a server error
+const retryable = (status) => status === null || status === 408 || status === 429 || status >= 500;
+
+export const createDelivery = (url) => ({
+  id: crypto.randomUUID(),
+  url,
+  status: 'pending',
+  attempts: 0,
+  lastError: null,
+  deliveredAt: null,
+});
+
+/**
+ * POST a signed JSON payload to a callback URL, retrying failed attempts.
+ * `delivery` is updated as attempts are made, so callers can expose it.
+ */
+export async function deliverCallback(delivery, event, payload, secret) {
+  const body = JSON.stringify(payload);
+  for (let attempt = 1; attempt <= CALLBACK_ATTEMPTS; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+    let status = null;
+    delivery.attempts = attempt;
+    try {
+      const resp = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Case-Scribe-Event': event,
+          'X-Case-Scribe-Delivery': delivery.id,
+          'X-Case-Scribe-Timestamp': String(timestamp),
+          'X-Case-Scribe-Signature': `sha256=${signPayload(secret, timestamp, body)}`,
+        },
+        body,
+        agent: agentFor,
+        signal: controller.signal,
+      });
+      status = resp.status;
+      if (resp.ok) {
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date().toISOString();
+        delivery.lastError = null;
+        return delivery;
+      }
+      delivery.lastError = `Callback answered ${status}`;
+    } catch (err) {
+      delivery.lastError = controller.signal.aborted ? 'Callback timed out' : String(err);
+      if (err.code === BLOCKED_URL) break;
+    } finally {
+      clearTimeout(timeout);
+    }
+    if (!retryable(status) || attempt === CALLBACK_ATTEMPTS) break;
+    await delay(CALLBACK_RETRY_MS * 2 ** (attempt - 1));
+  }
+  delivery.status = 'failed';
+  console.error(`Callback ${delivery.id} to ${delivery.url} failed: ${delivery.lastError}`);
+  return delivery;
+}
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCaseDocuments } from '@/hooks/use-case-documents';
+import { Award, Gauge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPercent, weakestPages } from '@/lib/accuracy';
+import { requestAccuracyCertificate } from '@/lib/api-client';
+import type { ErrataDetails } from '@/lib/errata';
+import type { AccuracyReport as AccuracyReportData } from '@/types/analysis';
+import { CaseDetailsForm } from './CaseDetailsForm';
+
+interface AccuracyReportProps {
+  report?: AccuracyReportData | null;
+  // Case details are shared with the errata sheet and saved on the project
+  details?: ErrataDetails;
+  onDetailsChange?: (details: ErrataDetails) => void;
+}
+
+const getAccuracyColor = (accuracy: number | null) => {
+  if (accuracy === null) return 'text-muted-foreground';
+  if (accuracy >= 0.98) return 'text-success';
+  if (accuracy >= 0.95) return 'text-warning';
+  return 'text-destructive';
+};
+
+interface CertificateDialogProps {
+  report: AccuracyReportData;
+  details?: ErrataDetails;
+  onDetailsChange?: (details: ErrataDetails) => void;
+}
+
+const CertificateDialog: React.FC<CertificateDialogProps> = ({
+  report,
+  details,
+  onDetailsChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const { form, setForm, isGenerating, exportDocuments } = useCaseDocuments({
+    open,
+    details,
+    onDetailsChange,
+    required: ['caseCaption', 'reporterName'],
+    missingMessage: 'The case caption and court reporter are required on the certificate',
+    failureTitle: 'Certificate export failed',
+    generate: async (caseDetails) => {
+      const docs = await requestAccuracyCertificate(caseDetails, report);
+      return [
+        { b64: docs.pdf_base64, name: docs.filenames.pdf, mime: 'application/pdf' },
+        { b64: docs.html_base64, name: docs.filenames.html, mime: 'text/html' },
+      ];
+    },
+  });
+
+  const handleGenerate = async () => {
+    if (await exportDocuments()) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Award className="h-4 w-4 mr-2" />
+          Accuracy Certificate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Accuracy Certificate</DialogTitle>
+          <DialogDescription>
+            Certifies {formatPercent(report.accuracy)} word accuracy over {report.referenceWords} spoken words. Exports PDF and HTML.
+          </DialogDescription>
+        </DialogHeader>
+
+        <CaseDetailsForm idPrefix="certificate" value={form} onChange={setForm} />
+
+        <DialogFooter>
+          <Button variant="professional" onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? 'Generating...' : 'Download PDF & HTML'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/** Word error rate, error counts and per-page accuracy from the transcript/audio comparison. */
+export const AccuracyReport: React.FC<AccuracyReportProps> = ({ report, details, onDetailsChange }) => {
+  if (!report) return null;
+
+  if (report.wer === null) {
+    return (
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-primary" />
+            Accuracy Report
+          </CardTitle>
+          <CardDescription>
+            Accuracy couldn't be measured: no words were recognized in the audio.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const weakest = weakestPages(report);
+  const stats = [
+    { label: 'Word Accuracy', value: formatPercent(report.accuracy), className: getAccuracyColor(report.accuracy) },
+    { label: 'Word Error Rate', value: formatPercent(report.wer) },
+    { label: 'Substitutions', value: report.substitutions },
+    { label: 'Deletions', value: report.deletions },
+    { label: 'Insertions', value: report.insertions },
+  ];
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-primary" />
+            Accuracy Report
+          </span>
+          <CertificateDialog report={report} details={details} onDetailsChange={onDetailsChange} />
+        </CardTitle>
+        <CardDescription>
+          {report.correctWords} of {report.referenceWords} spoken words transcribed exactly ({report.transcriptWords} words in the transcript)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {stats.map(({ label, value, className }) => (
+            <div key={label} className="p-3 bg-secondary/50 rounded-lg">
+              <p className={cn('text-xl font-bold', className)}>{value}</p>
+              <p className="text-xs text-muted-foreground">{label}</p>
+            </div>
+          ))}
+        </div>
+
+        {weakest.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Least accurate pages:</span>
+            {weakest.map(page => (
+              <Badge key={page.page} variant="outline" className="text-xs">
+                p. {page.page} · {formatPercent(page.accuracy)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <ScrollArea className="h-[240px] rounded border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Page</TableHead>
+                <TableHead>Words Spoken</TableHead>
+                <TableHead>Substitutions</TableHead>
+                <TableHead>Deletions</TableHead>
+                <TableHead>Insertions</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.pages.map(page => (
+                <TableRow key={page.page}>
+                  <TableCell>{page.page}</TableCell>
+                  <TableCell>{page.referenceWords}</TableCell>
+                  <TableCell>{page.substitutions}</TableCell>
+                  <TableCell>{page.deletions}</TableCell>
+                  <TableCell>{page.insertions}</TableCell>
+                  <TableCell className={cn('text-right font-medium', getAccuracyColor(page.accuracy))}>
+                    {formatPercent(page.accuracy)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,32 +1,46 @@
-import React from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { CheckCircle, AlertCircle, Clock, Target } from 'lucide-react';
-
-interface AnalysisError {
-  line: number;
-  column: number;
-  original: string;
-  suggested: string;
-  confidence: number;
-  type: 'spelling' | 'grammar' | 'audio_mismatch' | 'legal_term';
-}
-
-interface AnalysisData {
-  errors: AnalysisError[];
-  statistics: {
-    totalErrors: number;
-    confidenceScore: number;
-    processingTime: number;
-  };
-}
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { CheckCircle, AlertCircle, Clock, Target, Play, Users, Search, X } from 'lucide-react';
+import { formatErrorCitation, formatTimestamp } from '@/lib/format';
+import { formatPercent } from '@/lib/accuracy';
+import { computeSpeakerStats } from '@/lib/speakers';
+import { ERROR_SORT_KEYS, ERROR_TYPES, applyErrorFilters, hasActiveFilters, type ErrorSortKey } from '@/lib/error-filters';
+import { useErrorFilters } from '@/hooks/use-error-filters';
+import type { AnalysisData, ErrorType, LineSpeakers } from '@/types/analysis';
 
 interface AnalysisResultsProps {
   data: AnalysisData;
+  onSeek?: (time: number) => void;
+  // Analyzed text and its per-line speakers, for error density per speaker
+  transcript?: string;
+  lineSpeakers?: LineSpeakers;
 }
 
-export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
+const ALL_SPEAKERS = '__all__';
+
+const speakerChartConfig = {
+  density: { label: 'Errors per 100 words', color: 'hsl(var(--accent))' },
+  errors: { label: 'Errors', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, onSeek, transcript = '', lineSpeakers }) => {
+  const { filters, updateFilters, resetFilters } = useErrorFilters();
+  // The slider moves locally while dragging; the URL is updated when it's released
+  const [confidenceRange, setConfidenceRange] = useState([filters.minConfidence, filters.maxConfidence]);
+  useEffect(() => {
+    setConfidenceRange([filters.minConfidence, filters.maxConfidence]);
+  }, [filters.minConfidence, filters.maxConfidence]);
+
   const getErrorTypeIcon = (type: string) => {
     switch (type) {
       case 'spelling':
@@ -68,6 +82,19 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
     return acc;
   }, {} as Record<string, number>);
 
+  const speakerStats = useMemo(
+    () => computeSpeakerStats(data.errors, transcript, lineSpeakers),
+    [data.errors, transcript, lineSpeakers]
+  );
+  // Without word counts (older projects) the chart falls back to raw error counts
+  const hasWordCounts = speakerStats.some(s => s.words > 0);
+  const chartKey = hasWordCounts ? 'density' : 'errors';
+  const visibleErrors = useMemo(() => applyErrorFilters(data.errors, filters), [data.errors, filters]);
+  const parsePage = (value: string) => {
+    const page = Number.parseInt(value, 10);
+    return page > 0 ? page : null;
+  };
+
   return (
     <div className="space-y-6">
       {/* Statistics Overview */}
@@ -77,7 +104,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
             <div className="flex items-center space-x-2">
               <AlertCircle className="h-5 w-5 text-destructive" />
               <div>
-                <p className="text-2xl font-bold">{data.statistics.totalErrors}</p>
+                <p className="text-2xl font-bold">{data.summary.totalErrors}</p>
                 <p className="text-xs text-muted-foreground">Errors Found</p>
               </div>
             </div>
@@ -89,10 +116,16 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
             <div className="flex items-center space-x-2">
               <Target className="h-5 w-5 text-success" />
               <div>
+                {/* Analyses saved before accuracy reports carry a placeholder score; a report with
+                    nothing to measure against has a null accuracy, which is not 0% */}
                 <p className="text-2xl font-bold">
-                  {Math.round(data.statistics.confidenceScore * 100)}%
+                  {data.summary.accuracy
+                    ? formatPercent(data.summary.accuracy.accuracy)
+                    : `${Math.round(data.summary.confidenceScore * 100)}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {data.summary.accuracy ? 'Word Accuracy' : 'Confidence Score'}
                 </p>
-                <p className="text-xs text-muted-foreground">Confidence Score</p>
               </div>
             </div>
           </CardContent>
@@ -103,7 +136,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
             <div className="flex items-center space-x-2">
               <Clock className="h-5 w-5 text-primary" />
               <div>
-                <p className="text-2xl font-bold">{data.statistics.processingTime}s</p>
+                <p className="text-2xl font-bold">{data.summary.processingTime}s</p>
                 <p className="text-xs text-muted-foreground">Processing Time</p>
               </div>
             </div>
@@ -131,17 +164,185 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
         </CardContent>
       </Card>
 
+      {/* Per-speaker Breakdown */}
+      {speakerStats.length > 1 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              Errors by Speaker
+            </CardTitle>
+            <CardDescription>
+              {hasWordCounts
+                ? 'Errors per 100 words spoken. Dense speakers are worth a second listen.'
+                : 'Error count per speaker'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer
+              config={speakerChartConfig}
+              className="w-full"
+              style={{ height: Math.max(160, speakerStats.length * 36) }}
+            >
+              <BarChart data={speakerStats} layout="vertical" margin={{ left: 16, right: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" dataKey={chartKey} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="speaker" width={120} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  cursor={false}
+                  content={
+                    <ChartTooltipContent
+                      formatter={(_value, _name, item) => {
+                        const stats = item.payload as (typeof speakerStats)[number];
+                        return hasWordCounts
+                          ? `${stats.density.toFixed(1)} per 100 words (${stats.errors} errors / ${stats.words} words)`
+                          : `${stats.errors} errors`;
+                      }}
+                    />
+                  }
+                />
+                <Bar
+                  dataKey={chartKey}
+                  fill={`var(--color-${chartKey})`}
+                  radius={4}
+                  className="cursor-pointer"
+                  onClick={(entry) => updateFilters({ speaker: entry.payload.speaker })}
+                />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Detailed Error List */}
       <Card className="shadow-card">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <CheckCircle className="h-5 w-5 text-success" />
-            Detailed Error Analysis
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-success" />
+              Detailed Error Analysis
+            </span>
+            <span className="text-sm font-normal text-muted-foreground">
+              Showing {visibleErrors.length} of {data.errors.length}
+            </span>
           </CardTitle>
         </CardHeader>
         <CardContent>
+          <div className="space-y-4 mb-6 p-4 rounded-lg bg-secondary/30">
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="relative flex-1 min-w-48">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                  placeholder="Search original or suggested text"
+                  className="pl-8"
+                />
+              </div>
+              <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort: sort as ErrorSortKey })}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ERROR_SORT_KEYS.map(({ key, label }) => (
+                    <SelectItem key={key} value={key}>Sort: {label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasActiveFilters(filters) && (
+                <Button variant="ghost" size="sm" onClick={resetFilters}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={filters.types}
+              onValueChange={(types) => updateFilters({ types: types as ErrorType[] })}
+            >
+              {ERROR_TYPES.map(type => (
+                <ToggleGroupItem key={type} value={type} className="gap-1">
+                  <span>{getErrorTypeIcon(type)}</span>
+                  {getErrorTypeName(type)}
+                  <span className="text-muted-foreground">({errorsByType[type] ?? 0})</span>
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Confidence {confidenceRange[0]}% – {confidenceRange[1]}%</Label>
+                <Slider
+                  min={0}
+                  max={100}
+                  step={5}
+                  minStepsBetweenThumbs={0}
+                  value={confidenceRange}
+                  onValueChange={setConfidenceRange}
+                  onValueCommit={([minConfidence, maxConfidence]) => updateFilters({ minConfidence, maxConfidence })}
+                  className="pt-2"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Pages</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={filters.pageFrom ?? ''}
+                    onChange={(e) => updateFilters({ pageFrom: parsePage(e.target.value) })}
+                    placeholder="From"
+                    className="h-9"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={filters.pageTo ?? ''}
+                    onChange={(e) => updateFilters({ pageTo: parsePage(e.target.value) })}
+                    placeholder="To"
+                    className="h-9"
+                  />
+                </div>
+              </div>
+              {speakerStats.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Speaker</Label>
+                  <Select
+                    value={filters.speaker ?? ALL_SPEAKERS}
+                    onValueChange={(speaker) => updateFilters({ speaker: speaker === ALL_SPEAKERS ? null : speaker })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SPEAKERS}>All speakers</SelectItem>
+                      {/* Kept selectable when a shared link names a speaker this analysis lacks */}
+                      {filters.speaker && !speakerStats.some(s => s.speaker === filters.speaker) && (
+                        <SelectItem value={filters.speaker}>{filters.speaker} (0)</SelectItem>
+                      )}
+                      {speakerStats.filter(s => s.errors > 0).map(s => (
+                        <SelectItem key={s.speaker} value={s.speaker}>{s.speaker} ({s.errors})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {visibleErrors.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No errors match these filters.
+            </p>
+          )}
           <div className="space-y-4">
-            {data.errors.map((error, index) => (
+            {visibleErrors.map(({ error, index }) => (
               <div key={index} className="border rounded-lg p-4 hover:bg-secondary/30 transition-colors">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
@@ -151,8 +352,22 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data }) => {
                         {getErrorTypeName(error.type)}
                       </Badge>
                       <span className="text-xs text-muted-foreground">
-                        Line {error.line}, Column {error.column}
+                        {formatErrorCitation(error)}
                       </span>
+                      {error.speaker && (
+                        <Badge variant="secondary" className="text-xs">{error.speaker}</Badge>
+                      )}
+                      {onSeek && error.location?.start != null && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2 text-xs font-mono"
+                          onClick={() => onSeek(error.location.start)}
+                        >
+                          <Play className="h-3 w-3 mr-1" />
+                          {formatTimestamp(error.location.start)}
+                        </Button>
+                      )}
                     </div>
                     
                     <div className="space-y-2">
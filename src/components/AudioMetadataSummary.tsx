@@ -0,0 +1,35 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { formatTimestamp } from '@/lib/format';
+import type { AudioMetadata } from '@/lib/audio-metadata';
+
+interface AudioMetadataSummaryProps {
+  metadata: AudioMetadata | null;
+  isReading?: boolean;
+}
+
+const formatChannels = (channels: number) => (channels === 1 ? 'mono' : channels === 2 ? 'stereo' : `${channels} channels`);
+
+export const AudioMetadataSummary: React.FC<AudioMetadataSummaryProps> = ({ metadata, isReading }) => {
+  if (isReading) {
+    return (
+      <p className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Reading audio details...
+      </p>
+    );
+  }
+  if (!metadata) return null;
+
+  const parts = [
+    metadata.duration != null && formatTimestamp(metadata.duration),
+    metadata.sampleRate != null && `${(metadata.sampleRate / 1000).toFixed(1)} kHz`,
+    metadata.channels != null && formatChannels(metadata.channels),
+  ].filter(Boolean);
+
+  return (
+    <p className="mt-3 text-xs text-muted-foreground">
+      {parts.length ? parts.join(' · ') : 'Audio details unavailable in this browser'}
+    </p>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, Rewind, Volume2 } from 'lucide-react';
+import { formatTimestamp } from '@/lib/format';
+import type { AudioPlayerState } from '@/hooks/use-audio-player';
+
+interface AudioPlayerProps {
+  player: AudioPlayerState;
+  fileName?: string;
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ player, fileName }) => {
+  const { audioProps, url, currentTime, duration, isPlaying, seek, toggle, setRate } = player;
+  const [rate, setRateState] = useState(1);
+
+  const cycleRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+    setRateState(next);
+    setRate(next);
+  };
+
+  return (
+    <Card className="shadow-card sticky top-4 z-20">
+      <CardContent className="pt-6">
+        <audio {...audioProps} preload="metadata" />
+        <div className="flex items-center gap-4">
+          <Button size="sm" variant="outline" onClick={() => seek(currentTime - 5, isPlaying)} disabled={!url} aria-label="Back 5 seconds">
+            <Rewind className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="professional" onClick={toggle} disabled={!url} aria-label={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <span className="text-xs font-mono text-muted-foreground w-24 text-center">
+            {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+          </span>
+          <Slider
+            value={[currentTime]}
+            max={duration || 1}
+            step={0.1}
+            onValueChange={([value]) => seek(value, isPlaying)}
+            disabled={!url}
+            className="flex-1"
+            aria-label="Seek"
+          />
+          <Button size="sm" variant="ghost" onClick={cycleRate} disabled={!url} className="w-14 font-mono text-xs">
+            {rate}x
+          </Button>
+        </div>
+        {fileName && (
+          <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+            <Volume2 className="h-3 w-3" />
+            {fileName}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
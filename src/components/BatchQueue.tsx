@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useDropzone } from 'react-dropzone';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { FolderOpen, FolderUp, Play, Square, Trash2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { JOB_STAGES, runAnalysis, type JobStage } from '@/lib/analysis-jobs';
+import { pairFiles, runQueue, type BatchPair } from '@/lib/batch';
+import { createProject, saveProject } from '@/lib/project-store';
+import { getActiveTerms, type DictionaryTerm } from '@/lib/dictionary';
+import { canParseTranscriptFile, readTranscriptFile } from '@/lib/transcript-parser';
+
+type ItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+interface BatchItem {
+  // Rows can share a pair key when the same files are added again after a run
+  id: string;
+  pair: BatchPair;
+  status: ItemStatus;
+  stage: JobStage;
+  progress: number;
+  projectId?: string;
+  totalErrors?: number;
+  error?: string;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const sameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+const getStatusBadge = (item: BatchItem) => {
+  switch (item.status) {
+    case 'running':
+      return (
+        <Badge className="bg-primary/20 text-primary text-xs">
+          {JOB_STAGES.find(s => s.stage === item.stage)?.label ?? 'Processing'}
+        </Badge>
+      );
+    case 'done':
+      return <Badge className="bg-success/20 text-success text-xs">Complete</Badge>;
+    case 'failed':
+      return <Badge className="bg-destructive/20 text-destructive text-xs">Failed</Badge>;
+    default:
+      return <Badge variant="outline" className="text-xs">Queued</Badge>;
+  }
+};
+
+export const BatchQueue: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [unpaired, setUnpaired] = useState<File[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const stopRequested = useRef(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Not in React's input typings, so set it directly
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    // Re-pair everything still queued together with the new files
+    const queued = items.filter(item => item.status === 'queued');
+    const kept = items.filter(item => item.status !== 'queued');
+    const existing = [...queued.flatMap(item => [item.pair.transcriptFile, item.pair.audioFile]), ...unpaired];
+    // Dropping files that are already waiting again changes nothing
+    const added = files.filter(file => !existing.some(other => sameFile(file, other)));
+    const { pairs, unpaired: leftovers } = pairFiles([...existing, ...added]);
+    setUnpaired(leftovers);
+    setItems([
+      ...kept,
+      ...pairs.map(pair => ({
+        id: queued.find(item => item.pair.key === pair.key)?.id ?? crypto.randomUUID(),
+        pair,
+        status: 'queued' as const,
+        stage: 'upload' as const,
+        progress: 0,
+      })),
+    ]);
+  }, [items, unpaired]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: addFiles,
+    multiple: true,
+    disabled: isRunning,
+  });
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+
+  const processItem = async (item: BatchItem, dictionary: DictionaryTerm[]) => {
+    const { id } = item;
+    const { transcriptFile, audioFile } = item.pair;
+    updateItem(id, { status: 'running', stage: 'upload', progress: 0, error: undefined });
+    try {
+      const transcriptDoc = canParseTranscriptFile(transcriptFile) ? await readTranscriptFile(transcriptFile) : null;
+      const data = await runAnalysis({ transcriptFile, audioFile, transcriptDoc, dictionary }, (stage, progress) =>
+        updateItem(id, { stage, progress })
+      );
+      const project = await saveProject(createProject(transcriptFile, audioFile, data));
+      updateItem(id, {
+        status: 'done',
+        progress: 100,
+        projectId: project.id,
+        totalErrors: data.analysis.errors.length,
+      });
+    } catch (err) {
+      updateItem(id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const startBatch = async () => {
+    const pending = items.filter(item => item.status === 'queued' || item.status === 'failed');
+    if (pending.length === 0) return;
+    stopRequested.current = false;
+    setIsRunning(true);
+    // Read once so every item in the run uses the same word lists
+    const dictionary = await getActiveTerms().catch(() => []);
+    await runQueue(pending, concurrency, item => processItem(item, dictionary), () => stopRequested.current);
+    setIsRunning(false);
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+    toast({
+      title: stopRequested.current ? 'Batch stopped' : 'Batch complete',
+      description: 'Finished items are saved in the project library',
+    });
+  };
+
+  const counts = items.reduce((acc, item) => {
+    acc[item.status]++;
+    return acc;
+  }, { queued: 0, running: 0, done: 0, failed: 0 } as Record<ItemStatus, number>);
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderUp className="h-5 w-5 text-primary" />
+            Batch Analysis
+          </CardTitle>
+          <CardDescription>
+            Drop a folder of transcripts and recordings. Files are paired by name, e.g.
+            <code className="mx-1">smith_depo.rtf</code> with <code className="mx-1">smith_depo.wav</code>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div
+            {...getRootProps()}
+            className={cn(
+              'border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-all duration-200',
+              isDragActive ? 'border-accent bg-accent/10' : 'border-border hover:border-accent hover:bg-accent/5',
+              isRunning && 'opacity-50 cursor-not-allowed'
+            )}
+          >
+            <input {...getInputProps()} />
+            <Upload className="h-8 w-8 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              {isDragActive ? 'Drop the files here...' : 'Drop transcript and audio files or a whole folder here'}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => folderInputRef.current?.click()} disabled={isRunning}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Choose Folder
+            </Button>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="batch-concurrency" className="text-sm">Concurrent jobs</Label>
+              <Select
+                value={String(concurrency)}
+                onValueChange={(value) => setConcurrency(Number(value))}
+                disabled={isRunning}
+              >
+                <SelectTrigger id="batch-concurrency" className="w-20 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map(n => (
+                    <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 ml-auto">
+              {isRunning ? (
+                <Button variant="destructive" size="sm" onClick={() => { stopRequested.current = true; }}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop after current
+                </Button>
+              ) : (
+                <Button
+                  variant="professional"
+                  size="sm"
+                  onClick={startBatch}
+                  disabled={counts.queued + counts.failed === 0}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  {counts.failed > 0 && counts.queued === 0 ? 'Retry Failed' : 'Start Batch'}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setItems([]);
+                  setUnpaired([]);
+                }}
+                disabled={isRunning || items.length + unpaired.length === 0}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          {unpaired.length > 0 && (
+            <div className="text-sm text-warning">
+              <p className="font-medium">{unpaired.length} file(s) could not be paired and will be skipped:</p>
+              <p className="text-xs text-muted-foreground">{unpaired.map(f => f.name).join(', ')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {items.length > 0 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Queue
+              <div className="flex gap-2">
+                <Badge variant="outline" className="text-xs">{counts.done} / {items.length} complete</Badge>
+                {counts.failed > 0 && (
+                  <Badge className="bg-destructive/20 text-destructive text-xs">{counts.failed} failed</Badge>
+                )}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transcript</TableHead>
+                  <TableHead>Audio</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-40">Progress</TableHead>
+                  <TableHead className="text-right">Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-sm font-medium">{item.pair.transcriptFile.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{item.pair.audioFile.name}</TableCell>
+                    <TableCell>
+                      {getStatusBadge(item)}
+                      {item.error && <p className="text-xs text-destructive mt-1">{item.error}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={item.progress} className="h-2" />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.projectId && (
+                        <Button asChild size="sm" variant="outline">
+                          <Link to={`/?project=${item.projectId}`}>
+                            Open ({item.totalErrors} issues)
+                          </Link>
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
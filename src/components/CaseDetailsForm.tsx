@@ -0,0 +1,49 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { ErrataDetails } from '@/lib/errata';
+
+interface CaseDetailsFormProps {
+  // Keeps input ids unique when both dialogs are on the page
+  idPrefix: string;
+  value: ErrataDetails;
+  onChange: (details: ErrataDetails) => void;
+}
+
+/** Caption, case number, witness, date and reporter, as printed on errata sheets and certificates. */
+export const CaseDetailsForm: React.FC<CaseDetailsFormProps> = ({ idPrefix, value, onChange }) => {
+  const setField = (field: keyof ErrataDetails) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    onChange({ ...value, [field]: e.target.value });
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor={`${idPrefix}-caption`}>Case Caption</Label>
+        <Textarea
+          id={`${idPrefix}-caption`}
+          value={value.caseCaption}
+          onChange={setField('caseCaption')}
+          placeholder="JANE DOE, Plaintiff, v. ACME CORP., Defendant."
+          className="min-h-[60px]"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-case-number`}>Case Number</Label>
+        <Input id={`${idPrefix}-case-number`} value={value.caseNumber} onChange={setField('caseNumber')} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-witness`}>Witness Name</Label>
+        <Input id={`${idPrefix}-witness`} value={value.witnessName} onChange={setField('witnessName')} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-date`}>Date of Deposition</Label>
+        <Input id={`${idPrefix}-date`} type="date" value={value.depositionDate} onChange={setField('depositionDate')} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-reporter`}>Court Reporter</Label>
+        <Input id={`${idPrefix}-reporter`} value={value.reporterName} onChange={setField('reporterName')} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Columns2, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCitation, formatTimestamp } from '@/lib/format';
+import { createLocator } from '@/lib/local-align';
+import type { AlignmentOp, LineMap } from '@/types/analysis';
+
+interface CompareViewProps {
+  transcript: string;
+  alignment: AlignmentOp[];
+  lineMap?: LineMap;
+  currentTime?: number;
+  onSeek?: (time: number) => void;
+}
+
+// Matching blocks longer than this are collapsed to their first and last lines
+const COLLAPSE_CHARS = 240;
+// Blocks are rendered in pages of this size so long depositions open quickly
+const PAGE_SIZE = 200;
+
+const TAG_STYLES: Record<AlignmentOp['tag'], { transcript: string; audio: string; label: string }> = {
+  equal: { transcript: '', audio: '', label: 'Match' },
+  replace: { transcript: 'bg-warning/20 text-warning', audio: 'bg-warning/20 text-warning', label: 'Replaced' },
+  delete: { transcript: 'bg-destructive/20 text-destructive', audio: '', label: 'Not in audio' },
+  insert: { transcript: '', audio: 'bg-primary/20 text-primary', label: 'Missing from transcript' },
+};
+
+const collapse = (text: string) => {
+  if (text.length <= COLLAPSE_CHARS) return null;
+  const half = COLLAPSE_CHARS / 2;
+  return { head: text.slice(0, half), tail: text.slice(-half), hidden: text.length - COLLAPSE_CHARS };
+};
+
+interface CompareRowProps {
+  op: AlignmentOp;
+  transcriptText: string;
+  citation: string;
+  isActive: boolean;
+  onSeek?: (time: number) => void;
+}
+
+const CompareRow: React.FC<CompareRowProps> = ({ op, transcriptText, citation, isActive, onSeek }) => {
+  const [expanded, setExpanded] = useState(false);
+  const style = TAG_STYLES[op.tag];
+  const collapsed = op.tag === 'equal' && !expanded ? collapse(transcriptText) : null;
+
+  const renderText = (text: string, className: string) =>
+    text ? (
+      <span className={cn('rounded px-0.5', className)}>{text}</span>
+    ) : (
+      <span className="text-muted-foreground">—</span>
+    );
+
+  return (
+    <div
+      className={cn(
+        'grid grid-cols-[5rem_1fr_1fr] gap-4 border-b py-2 text-sm',
+        isActive && 'bg-accent/20'
+      )}
+    >
+      <div className="space-y-1 text-xs text-muted-foreground">
+        <div>{citation}</div>
+        {onSeek && op.start != null && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-1 text-xs font-mono"
+            onClick={() => onSeek(op.start)}
+            title={`Play from ${formatTimestamp(op.start)}`}
+          >
+            <Play className="h-3 w-3 mr-1" />
+            {formatTimestamp(op.start)}
+          </Button>
+        )}
+      </div>
+      <div className="font-mono whitespace-pre-wrap break-words">
+        {collapsed ? (
+          <>
+            {collapsed.head}
+            <button
+              type="button"
+              onClick={() => setExpanded(true)}
+              className="mx-1 text-xs text-primary hover:underline"
+            >
+              … {collapsed.hidden} more characters …
+            </button>
+            {collapsed.tail}
+          </>
+        ) : (
+          renderText(transcriptText, style.transcript)
+        )}
+      </div>
+      <div className="font-mono whitespace-pre-wrap break-words">
+        {op.tag === 'equal' && collapsed ? (
+          <span className="text-muted-foreground">Same as transcript</span>
+        ) : (
+          renderText(op.audioText, style.audio)
+        )}
+      </div>
+    </div>
+  );
+};
+
+/** The certified transcript next to the machine transcription, one alignment block per row. */
+export const CompareView: React.FC<CompareViewProps> = ({ transcript, alignment, lineMap, currentTime, onSeek }) => {
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const locator = useMemo(() => createLocator(transcript, lineMap), [transcript, lineMap]);
+  const counts = useMemo(() => {
+    const byTag: Record<AlignmentOp['tag'], number> = { equal: 0, replace: 0, delete: 0, insert: 0 };
+    for (const op of alignment) byTag[op.tag]++;
+    return byTag;
+  }, [alignment]);
+
+  const rows = useMemo(
+    () => alignment
+      .map((op, index) => ({ op, index }))
+      .filter(({ op }) => !differencesOnly || op.tag !== 'equal'),
+    [alignment, differencesOnly]
+  );
+
+  if (alignment.length === 0) {
+    return (
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Compare with Audio</CardTitle>
+          <CardDescription>
+            This analysis has no alignment to compare. Run it again to see the transcript next to the machine transcription.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const isActive = (op: AlignmentOp) =>
+    currentTime !== undefined && op.start != null && op.end != null && op.end > op.start &&
+    currentTime >= op.start && currentTime < op.end;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Columns2 className="h-5 w-5 text-primary" />
+            Compare with Audio
+          </span>
+          <div className="flex items-center gap-2">
+            <Switch id="compare-differences" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+            <Label htmlFor="compare-differences" className="text-sm font-normal">Differences only</Label>
+          </div>
+        </CardTitle>
+        <CardDescription className="flex flex-wrap gap-2">
+          {(['replace', 'delete', 'insert'] as const).map(tag => (
+            <Badge key={tag} className={cn('text-xs', TAG_STYLES[tag].transcript || TAG_STYLES[tag].audio)}>
+              {TAG_STYLES[tag].label}: {counts[tag]}
+            </Badge>
+          ))}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-[5rem_1fr_1fr] gap-4 border-b pb-2 text-xs font-medium text-muted-foreground">
+          <div>Location</div>
+          <div>Certified transcript</div>
+          <div>Machine transcription</div>
+        </div>
+        {rows.slice(0, limit).map(({ op, index }) => {
+          const { location } = locator.locate(op.offset, op.length);
+          return (
+            <CompareRow
+              key={index}
+              op={op}
+              transcriptText={transcript.slice(op.offset, op.offset + op.length)}
+              citation={formatCitation(location.page, location.line)}
+              isActive={isActive(op)}
+              onSeek={onSeek}
+            />
+          );
+        })}
+        {rows.length > limit && (
+          <div className="flex justify-center pt-4">
+            <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)}>
+              Show more ({rows.length - limit} remaining)
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
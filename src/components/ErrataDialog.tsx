@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCaseDocuments } from '@/hooks/use-case-documents';
+import { FileSignature } from 'lucide-react';
+import type { AnalysisError } from '@/types/analysis';
+import type { ReviewDecisions } from '@/lib/review';
+import { buildErrataEntries, type ErrataDetails } from '@/lib/errata';
+import { requestErrataDocuments } from '@/lib/api-client';
+import { CaseDetailsForm } from './CaseDetailsForm';
+
+interface ErrataDialogProps {
+  errors: AnalysisError[];
+  decisions: ReviewDecisions;
+  details?: ErrataDetails;
+  onDetailsChange?: (details: ErrataDetails) => void;
+}
+
+export const ErrataDialog: React.FC<ErrataDialogProps> = ({ errors, decisions, details, onDetailsChange }) => {
+  const [open, setOpen] = useState(false);
+  // Reasons the reporter has overridden, keyed by error index
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+
+  const entries = useMemo(() => buildErrataEntries(errors, decisions), [errors, decisions]);
+
+  const { form, setForm, isGenerating, exportDocuments } = useCaseDocuments({
+    open,
+    details,
+    onDetailsChange,
+    required: ['caseCaption', 'witnessName'],
+    missingMessage: 'The case caption and witness name are required on the errata sheet',
+    failureTitle: 'Errata export failed',
+    generate: async (caseDetails) => {
+      const docs = await requestErrataDocuments(
+        caseDetails,
+        entries.map(({ errorIndex, ...entry }) => ({ ...entry, reason: reasons[errorIndex] ?? entry.reason }))
+      );
+      return [
+        { b64: docs.docx_base64, name: docs.filenames.docx, mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+        { b64: docs.pdf_base64, name: docs.filenames.pdf, mime: 'application/pdf' },
+      ];
+    },
+  });
+
+  const handleGenerate = async () => {
+    if (await exportDocuments()) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" disabled={entries.length === 0}>
+          <FileSignature className="h-4 w-4 mr-2" />
+          Errata Sheet
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Errata Sheet</DialogTitle>
+          <DialogDescription>
+            {entries.length} accepted or edited corrections will be listed. Exports DOCX and PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <CaseDetailsForm idPrefix="errata" value={form} onChange={setForm} />
+
+        <ScrollArea className="h-[240px] rounded border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Page</TableHead>
+                <TableHead className="w-16">Line</TableHead>
+                <TableHead>Change From</TableHead>
+                <TableHead>Change To</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.errorIndex}>
+                  <TableCell>{entry.page}</TableCell>
+                  <TableCell>{entry.line}</TableCell>
+                  <TableCell className="text-sm">{entry.original}</TableCell>
+                  <TableCell className="text-sm">{entry.corrected}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={reasons[entry.errorIndex] ?? entry.reason}
+                      onChange={(e) => setReasons(prev => ({ ...prev, [entry.errorIndex]: e.target.value }))}
+                      className="h-8 text-xs"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="professional" onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? 'Generating...' : 'Download DOCX & PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
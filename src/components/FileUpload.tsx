@@ -1,43 +1,60 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, File, X } from 'lucide-react';
+import { Upload, File, X, AlertTriangle, Loader2, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { dropzoneAccept, validateFile, type FileCheck, type FileKind } from '@/lib/file-validation';
+import type { FileUploadProgress } from '@/lib/chunked-upload';
 
 interface FileUploadProps {
   file: File | null;
   onFileSelect: (file: File | null) => void;
-  accept: string;
+  kind: FileKind;
   label: string;
   maxSize?: number;
+  // Shown under the selected file, e.g. audio metadata
+  children?: React.ReactNode;
+  // Progress of sending the selected file to the server, once an analysis starts
+  upload?: FileUploadProgress;
+  // Offered when the upload failed; resumes from the chunks the server already has
+  onRetryUpload?: () => void;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
   file,
   onFileSelect,
-  accept,
+  kind,
   label,
-  maxSize = 500 * 1024 * 1024 // 500MB default
+  maxSize = 20 * 1024 * 1024 * 1024, // 20GB default, the server's chunked upload limit
+  children,
+  upload,
+  onRetryUpload
 }) => {
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      onFileSelect(acceptedFiles[0]);
-    }
-  }, [onFileSelect]);
+  // Result of the last content check, kept with the file it was for
+  const [check, setCheck] = useState<FileCheck & { file?: File }>({});
+  const [isChecking, setIsChecking] = useState(false);
+
+  // The dropzone filters by MIME type and extension; the content is checked here
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    setIsChecking(true);
+    const result = await validateFile(acceptedFiles[0], kind)
+      .catch((err): FileCheck => ({ error: `Could not read ${acceptedFiles[0].name}: ${err}` }));
+    setIsChecking(false);
+    setCheck({ ...result, file: acceptedFiles[0] });
+    if (!result.error) onFileSelect(acceptedFiles[0]);
+  }, [kind, onFileSelect]);
 
   const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop,
-    accept: accept.split(',').reduce((acc, ext) => {
-      acc[`application/${ext.replace('.', '')}`] = [ext];
-      acc[`audio/${ext.replace('.', '')}`] = [ext];
-      acc[`text/${ext.replace('.', '')}`] = [ext];
-      return acc;
-    }, {} as any),
+    accept: dropzoneAccept(kind),
     maxSize,
     multiple: false
   });
 
   const removeFile = () => {
+    setCheck({});
     onFileSelect(null);
   };
 
@@ -62,9 +79,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           )}
         >
           <input {...getInputProps()} />
-          <Upload className="h-8 w-8 mx-auto mb-4 text-muted-foreground" />
+          {isChecking ? (
+            <Loader2 className="h-8 w-8 mx-auto mb-4 text-muted-foreground animate-spin" />
+          ) : (
+            <Upload className="h-8 w-8 mx-auto mb-4 text-muted-foreground" />
+          )}
           <p className="text-sm text-muted-foreground">
-            {isDragActive ? "Drop the file here..." : label}
+            {isChecking ? "Checking file..." : isDragActive ? "Drop the file here..." : label}
           </p>
           <p className="text-xs text-muted-foreground mt-2">
             Max file size: {formatFileSize(maxSize)}
@@ -87,13 +108,48 @@ export const FileUpload: React.FC<FileUploadProps> = ({
               variant="ghost"
               size="sm"
               className="text-destructive hover:text-destructive/80"
+              disabled={upload?.status === 'uploading'}
             >
               <X className="h-4 w-4" />
             </Button>
           </div>
+          {children}
+          {upload && (
+            <div className="mt-3 space-y-1">
+              <Progress value={upload.fraction * 100} className="h-2" />
+              <div className="flex items-center justify-between gap-2 text-xs">
+                {upload.status === 'failed' ? (
+                  <span className="text-destructive">
+                    Upload stopped at {Math.floor(upload.fraction * 100)}%{upload.error && `: ${upload.error}`}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {upload.status === 'complete' ? 'Uploaded' : `Uploading... ${Math.floor(upload.fraction * 100)}%`}
+                  </span>
+                )}
+                {upload.status === 'failed' && onRetryUpload && (
+                  <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onRetryUpload}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
+      {file && check.file === file && check.warning && (
+        <p className="flex items-start gap-2 text-sm text-warning">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          {check.warning}
+        </p>
+      )}
+
+      {!file && check.error && (
+        <p className="text-sm text-destructive">{check.error}</p>
+      )}
+
       {fileRejections.length > 0 && (
         <div className="text-sm text-destructive">
           {fileRejections.map(({ file, errors }) => (
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,195 +6,90 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Copy, Download, Play, Settings, Workflow } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Copy, Download, LayoutTemplate, Play, Settings, Workflow } from 'lucide-react';
+import { WorkflowGraph } from './WorkflowGraph';
+import { WorkflowImporter } from './WorkflowImporter';
+import { WorkflowTestInspector } from './WorkflowTestInspector';
+import { useWorkflowTests } from '@/hooks/use-workflow-tests';
+import {
+  ANALYZER_STEPS,
+  DEFAULT_WORKFLOW_CONFIG,
+  WORKFLOW_TEMPLATES,
+  applyTemplate,
+  buildWorkflow,
+  returnsDownloads,
+  workflowRequirements,
+  type AnalyzerStep,
+  type WorkflowConfig,
+} from '@/lib/n8n-workflow';
 
 export const N8NWorkflow: React.FC = () => {
   const { toast } = useToast();
-  const [webhookUrl, setWebhookUrl] = useState('');
-  const [autoDownload, setAutoDownload] = useState(true);
-  const [notificationEmail, setNotificationEmail] = useState('');
+  const [config, setConfig] = useState<WorkflowConfig>(DEFAULT_WORKFLOW_CONFIG);
+  const { runs, isRunning, runTest, clearHistory } = useWorkflowTests();
 
-  const workflowJson = {
-    name: 'Court Transcript Analysis Workflow',
-    nodes: [
-      {
-        parameters: {
-          httpMethod: 'POST',
-          path: 'transcript-analysis',
-          responseMode: 'onReceived',
-          options: {}
-        },
-        id: '1',
-        name: 'Webhook',
-        type: 'n8n-nodes-base.webhook',
-        typeVersion: 1,
-        position: [240, 300]
-      },
-      {
-        parameters: {
-          url: 'https://api.openai.com/v1/audio/transcriptions',
-          authentication: 'headerAuth',
-          sendHeaders: true,
-          headerParameters: {
-            parameters: [
-              {
-                name: 'Authorization',
-                value: 'Bearer {{ $env.OPENAI_API_KEY }}'
-              }
-            ]
-          },
-          sendBody: true,
-          bodyParameters: {
-            parameters: [
-              {
-                name: 'file',
-                value: '={{ $json.audioFile }}'
-              },
-              {
-                name: 'model',
-                value: 'whisper-1'
-              }
-            ]
-          }
-        },
-        id: '2',
-        name: 'Audio Transcription',
-        type: 'n8n-nodes-base.httpRequest',
-        typeVersion: 3,
-        position: [460, 300]
-      },
-      {
-        parameters: {
-          mode: 'combine',
-          combineBy: 'mergeByIndex',
-          options: {}
-        },
-        id: '3',
-        name: 'Merge',
-        type: 'n8n-nodes-base.merge',
-        typeVersion: 2,
-        position: [680, 300]
-      },
-      {
-        parameters: {
-          url: 'https://api.openai.com/v1/chat/completions',
-          authentication: 'headerAuth',
-          sendHeaders: true,
-          headerParameters: {
-            parameters: [
-              {
-                name: 'Authorization',
-                value: 'Bearer {{ $env.OPENAI_API_KEY }}'
-              }
-            ]
-          },
-          sendBody: true,
-          bodyParameters: {
-            parameters: [
-              {
-                name: 'model',
-                value: 'gpt-4'
-              },
-              {
-                name: 'messages',
-                value: '=[{"role": "system", "content": "You are a legal transcript correction AI. Compare the original transcript with the audio transcription and identify errors, then provide a corrected version with high accuracy for court use."}, {"role": "user", "content": "Original transcript: {{ $json.originalTranscript }}\\n\\nAudio transcription: {{ $json.audioTranscription }}\\n\\nPlease identify errors and provide corrections."}]'
-              }
-            ]
-          }
-        },
-        id: '4',
-        name: 'AI Correction',
-        type: 'n8n-nodes-base.httpRequest',
-        typeVersion: 3,
-        position: [900, 300]
-      },
-      {
-        parameters: {
-          operation: 'sendEmail',
-          fromEmail: 'noreply@courttranscripts.ai',
-          toEmail: '={{ $json.notificationEmail }}',
-          subject: 'Transcript Analysis Complete',
-          emailFormat: 'html',
-          message: '=<h2>Court Transcript Analysis Complete</h2><p>Your transcript has been analyzed and corrected. The results are attached to this email.</p><p><strong>Analysis Summary:</strong></p><ul><li>Total errors found: {{ $json.errorCount }}</li><li>Confidence score: {{ $json.confidenceScore }}%</li></ul>'
-        },
-        id: '5',
-        name: 'Send Notification',
-        type: 'n8n-nodes-base.emailSend',
-        typeVersion: 2,
-        position: [1120, 300]
-      }
-    ],
-    connections: {
-      'Webhook': {
-        main: [
-          [
-            {
-              node: 'Audio Transcription',
-              type: 'main',
-              index: 0
-            }
-          ]
-        ]
-      },
-      'Audio Transcription': {
-        main: [
-          [
-            {
-              node: 'Merge',
-              type: 'main',
-              index: 0
-            }
-          ]
-        ]
-      },
-      'Merge': {
-        main: [
-          [
-            {
-              node: 'AI Correction',
-              type: 'main',
-              index: 0
-            }
-          ]
-        ]
-      },
-      'AI Correction': {
-        main: [
-          [
-            {
-              node: 'Send Notification',
-              type: 'main',
-              index: 0
-            }
-          ]
-        ]
-      }
-    }
+  const update = (changes: Partial<WorkflowConfig>) => {
+    setConfig(prev => ({ ...prev, ...changes }));
+    setTemplateId(null);
   };
 
-  const copyWorkflow = () => {
-    navigator.clipboard.writeText(JSON.stringify(workflowJson, null, 2));
+  // The JSON is regenerated from the form on every change
+  const workflowJson = useMemo(() => buildWorkflow(config), [config]);
+  const requirements = useMemo(() => workflowRequirements(config), [config]);
+  const usesServer = returnsDownloads(config.analyzer);
+  // Cleared once the form is edited by hand
+  const [templateId, setTemplateId] = useState<string | null>('on-premises');
+
+  const chooseTemplate = (id: string) => {
+    const template = WORKFLOW_TEMPLATES.find(t => t.id === id);
+    if (!template) return;
+    setConfig(prev => applyTemplate(prev, template));
+    setTemplateId(id);
+  };
+
+  const importConfig = (imported: WorkflowConfig) => {
+    setConfig(imported);
+    setTemplateId(null);
     toast({
-      title: "Copied to clipboard",
-      description: "N8N workflow JSON has been copied to your clipboard",
+      title: "Workflow imported",
+      description: `${imported.name} is loaded into the builder`,
     });
   };
 
+  const copyWorkflow = async () => {
+    try {
+      // navigator.clipboard is missing on insecure origins, and writing can be denied
+      await navigator.clipboard.writeText(JSON.stringify(workflowJson, null, 2));
+      toast({
+        title: "Copied to clipboard",
+        description: "N8N workflow JSON has been copied to your clipboard",
+      });
+    } catch (err) {
+      toast({
+        title: "Copy failed",
+        description: `${err instanceof Error ? err.message : String(err)}. Use Download JSON instead.`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const downloadWorkflow = () => {
     const blob = new Blob([JSON.stringify(workflowJson, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'court-transcript-analysis-workflow.json';
+    a.download = `${config.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow'}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const testWorkflow = () => {
-    if (!webhookUrl) {
+  const testWorkflow = async () => {
+    if (!config.webhookUrl) {
       toast({
         title: "Missing webhook URL",
         description: "Please enter your N8N webhook URL to test the workflow",
@@ -203,10 +98,14 @@ export const N8NWorkflow: React.FC = () => {
       return;
     }
 
-    toast({
-      title: "Test workflow",
-      description: "This would send a test request to your N8N webhook",
-    });
+    const run = await runTest(config.webhookUrl.trim());
+    if (run.status === null || run.status >= 400) {
+      toast({
+        title: "Test request failed",
+        description: run.error ?? `The webhook answered ${run.status}`,
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -227,124 +126,254 @@ export const N8NWorkflow: React.FC = () => {
         </div>
 
         <div className="max-w-4xl mx-auto space-y-6">
-          {/* Workflow Overview */}
+          {/* Templates */}
           <Card className="shadow-card">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                <Settings className="h-5 w-5 text-primary" />
-                Workflow Overview
+                <LayoutTemplate className="h-5 w-5 text-primary" />
+                Templates
               </CardTitle>
               <CardDescription>
-                This automated workflow processes court transcripts and audio files using AI
+                Start from a template, then adjust the steps below
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="grid md:grid-cols-5 gap-4">
-                <div className="text-center">
-                  <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
-                    <span className="text-primary font-bold">1</span>
-                  </div>
-                  <h3 className="font-semibold text-sm">Webhook</h3>
-                  <p className="text-xs text-muted-foreground">Receives files</p>
-                </div>
-                <div className="text-center">
-                  <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
-                    <span className="text-primary font-bold">2</span>
-                  </div>
-                  <h3 className="font-semibold text-sm">Audio AI</h3>
-                  <p className="text-xs text-muted-foreground">Transcribes audio</p>
-                </div>
-                <div className="text-center">
-                  <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
-                    <span className="text-primary font-bold">3</span>
-                  </div>
-                  <h3 className="font-semibold text-sm">Merge Data</h3>
-                  <p className="text-xs text-muted-foreground">Combines inputs</p>
-                </div>
-                <div className="text-center">
-                  <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
-                    <span className="text-primary font-bold">4</span>
-                  </div>
-                  <h3 className="font-semibold text-sm">AI Analysis</h3>
-                  <p className="text-xs text-muted-foreground">Finds errors</p>
-                </div>
-                <div className="text-center">
-                  <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center mx-auto mb-2">
-                    <span className="text-primary font-bold">5</span>
-                  </div>
-                  <h3 className="font-semibold text-sm">Notification</h3>
-                  <p className="text-xs text-muted-foreground">Sends results</p>
-                </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                {WORKFLOW_TEMPLATES.map(template => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => chooseTemplate(template.id)}
+                    className={cn(
+                      'text-left p-4 rounded-lg border transition-colors',
+                      templateId === template.id ? 'border-primary bg-primary/5' : 'hover:border-accent hover:bg-accent/5'
+                    )}
+                  >
+                    <h3 className="font-semibold text-sm">{template.label}</h3>
+                    <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+                  </button>
+                ))}
               </div>
             </CardContent>
           </Card>
 
-          {/* Workflow Configuration */}
+          <WorkflowImporter base={config} onImport={importConfig} />
+
+          {/* Workflow Builder */}
           <Card className="shadow-card">
             <CardHeader>
-              <CardTitle>Workflow Configuration</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5 text-primary" />
+                Workflow Steps
+              </CardTitle>
               <CardDescription>
-                Set up your N8N workflow with these parameters
+                Pick the steps for this client's pipeline; the workflow JSON below follows every change
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="webhook-url">N8N Webhook URL</Label>
-                <Input
-                  id="webhook-url"
-                  value={webhookUrl}
-                  onChange={(e) => setWebhookUrl(e.target.value)}
-                  placeholder="https://your-n8n-instance.com/webhook/transcript-analysis"
-                />
+            <CardContent className="space-y-6">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="workflow-name">Workflow Name</Label>
+                  <Input
+                    id="workflow-name"
+                    value={config.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">N8N Webhook URL</Label>
+                  <Input
+                    id="webhook-url"
+                    value={config.webhookUrl}
+                    onChange={(e) => update({ webhookUrl: e.target.value })}
+                    placeholder="https://your-n8n-instance.com/webhook/transcript-analysis"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    1. Intake: the webhook receives <code>transcript</code> and <code>audio</code> as multipart files
+                  </p>
+                </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="notification-email">Notification Email</Label>
-                <Input
-                  id="notification-email"
-                  type="email"
-                  value={notificationEmail}
-                  onChange={(e) => setNotificationEmail(e.target.value)}
-                  placeholder="lawyer@lawfirm.com"
-                />
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>2. Analysis</Label>
+                  <Select value={config.analyzer} onValueChange={(value) => update({ analyzer: value as AnalyzerStep })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANALYZER_STEPS.map(step => (
+                        <SelectItem key={step.value} value={step.value}>{step.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {ANALYZER_STEPS.find(step => step.value === config.analyzer)?.description}
+                  </p>
+                </div>
+                {usesServer && (
+                  <div className="space-y-2">
+                    <Label htmlFor="api-base">Case Scribe Server URL</Label>
+                    <Input
+                      id="api-base"
+                      value={config.apiBase}
+                      onChange={(e) => update({ apiBase: e.target.value })}
+                      placeholder="http://localhost:8787"
+                    />
+                    <p className="text-xs text-muted-foreground">As reachable from your n8n instance</p>
+                  </div>
+                )}
+                {config.analyzer === 'jobs' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="poll-seconds">Check Job Every (seconds)</Label>
+                    <Input
+                      id="poll-seconds"
+                      type="number"
+                      min={5}
+                      value={config.pollSeconds}
+                      onChange={(e) => update({ pollSeconds: Math.max(5, Number(e.target.value) || 5) })}
+                    />
+                  </div>
+                )}
               </div>
 
-              <div className="flex items-center space-x-2">
+              <div className="flex flex-wrap items-center gap-3">
                 <Switch
-                  id="auto-download"
-                  checked={autoDownload}
-                  onCheckedChange={setAutoDownload}
+                  id="condition-enabled"
+                  checked={config.condition.enabled}
+                  onCheckedChange={(enabled) => update({ condition: { ...config.condition, enabled } })}
+                />
+                <Label htmlFor="condition-enabled">3. Only continue when the analysis finds at least</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20 h-8"
+                  value={config.condition.minErrors}
+                  disabled={!config.condition.enabled}
+                  onChange={(e) => update({ condition: { ...config.condition, minErrors: Math.max(0, Number(e.target.value) || 0) } })}
+                  aria-label="Minimum error count"
                 />
-                <Label htmlFor="auto-download">Auto-download corrected transcripts</Label>
+                <span className="text-sm">errors</span>
+              </div>
+
+              <div className="space-y-4">
+                <Label>4. Outputs</Label>
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div className="space-y-2 p-3 bg-secondary/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="output-email"
+                        checked={config.email.enabled}
+                        onCheckedChange={(enabled) => update({ email: { ...config.email, enabled } })}
+                      />
+                      <Label htmlFor="output-email">Email</Label>
+                    </div>
+                    <Input
+                      type="email"
+                      value={config.email.to}
+                      disabled={!config.email.enabled}
+                      onChange={(e) => update({ email: { ...config.email, to: e.target.value } })}
+                      placeholder="lawyer@lawfirm.com"
+                      aria-label="Notification email"
+                    />
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="attach-transcript"
+                        checked={config.attachTranscript && usesServer}
+                        disabled={!config.email.enabled || !usesServer}
+                        onCheckedChange={(attachTranscript) => update({ attachTranscript })}
+                      />
+                      <Label htmlFor="attach-transcript" className="text-xs font-normal">Attach corrected transcript</Label>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 p-3 bg-secondary/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="output-slack"
+                        checked={config.slack.enabled}
+                        onCheckedChange={(enabled) => update({ slack: { ...config.slack, enabled } })}
+                      />
+                      <Label htmlFor="output-slack">Slack</Label>
+                    </div>
+                    <Input
+                      value={config.slack.channel}
+                      disabled={!config.slack.enabled}
+                      onChange={(e) => update({ slack: { ...config.slack, channel: e.target.value } })}
+                      placeholder="#transcripts"
+                      aria-label="Slack channel"
+                    />
+                  </div>
+
+                  <div className="space-y-2 p-3 bg-secondary/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="output-file-drop"
+                        checked={config.fileDrop.enabled && usesServer}
+                        disabled={!usesServer}
+                        onCheckedChange={(enabled) => update({ fileDrop: { ...config.fileDrop, enabled } })}
+                      />
+                      <Label htmlFor="output-file-drop">File drop</Label>
+                    </div>
+                    <Input
+                      value={config.fileDrop.directory}
+                      disabled={!config.fileDrop.enabled || !usesServer}
+                      onChange={(e) => update({ fileDrop: { ...config.fileDrop, directory: e.target.value } })}
+                      placeholder="/data/transcripts"
+                      aria-label="Drop folder"
+                    />
+                    {!usesServer && (
+                      <p className="text-xs text-muted-foreground">Needs the Case Scribe server, which returns the corrected DOCX</p>
+                    )}
+                  </div>
+                </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Node Graph */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Workflow className="h-5 w-5 text-primary" />
+                Workflow Preview
+              </CardTitle>
+              <CardDescription>
+                {workflowJson.nodes.length} nodes, as they will appear on the n8n canvas
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WorkflowGraph workflow={workflowJson} />
+            </CardContent>
+          </Card>
+
           {/* Environment Variables */}
           <Card className="shadow-card">
             <CardHeader>
-              <CardTitle>Required Environment Variables</CardTitle>
+              <CardTitle>Required Environment Variables & Credentials</CardTitle>
               <CardDescription>
                 Set these in your N8N instance for the workflow to function
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                <div className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
-                  <div>
-                    <code className="text-sm font-mono">OPENAI_API_KEY</code>
-                    <p className="text-xs text-muted-foreground">OpenAI API key for GPT-4 and Whisper</p>
-                  </div>
-                  <Badge variant="outline">Required</Badge>
+              {requirements.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This workflow needs no extra settings in n8n.</p>
+              ) : (
+                <div className="space-y-3">
+                  {requirements.map(requirement => (
+                    <div key={requirement.name} className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
+                      <div>
+                        <code className="text-sm font-mono">{requirement.name}</code>
+                        <p className="text-xs text-muted-foreground">{requirement.description}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Badge variant="secondary">{requirement.kind === 'env' ? 'Env var' : 'Credential'}</Badge>
+                        <Badge variant="outline">{requirement.required ? 'Required' : 'Optional'}</Badge>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-                <div className="flex items-center justify-between p-3 bg-secondary/50 rounded-lg">
-                  <div>
-                    <code className="text-sm font-mono">SMTP_HOST</code>
-                    <p className="text-xs text-muted-foreground">Email server for notifications</p>
-                  </div>
-                  <Badge variant="outline">Optional</Badge>
-                </div>
-              </div>
+              )}
             </CardContent>
           </Card>
 
@@ -372,15 +401,17 @@ export const N8NWorkflow: React.FC = () => {
                     <Download className="h-4 w-4 mr-2" />
                     Download JSON
                   </Button>
-                  <Button onClick={testWorkflow} variant="professional" size="sm">
+                  <Button onClick={testWorkflow} variant="professional" size="sm" disabled={isRunning}>
                     <Play className="h-4 w-4 mr-2" />
-                    Test Workflow
+                    {isRunning ? 'Testing...' : 'Test Workflow'}
                   </Button>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          <WorkflowTestInspector runs={runs} onClear={clearHistory} />
+
           {/* Setup Instructions */}
           <Card className="shadow-card">
             <CardHeader>
@@ -391,10 +422,9 @@ export const N8NWorkflow: React.FC = () => {
                 <li>Copy the workflow JSON above</li>
                 <li>Open your N8N instance and create a new workflow</li>
                 <li>Paste the JSON to import the workflow</li>
-                <li>Set the required environment variables</li>
+                <li>Set the required environment variables and pick the listed credentials on their nodes</li>
                 <li>Activate the webhook node</li>
-                <li>Configure email settings for notifications</li>
-                <li>Test the workflow with sample files</li>
+                <li>Test the workflow with sample files, or first against the mock webhook (<code>npm run mock-webhook</code> in <code>app/server</code>)</li>
               </ol>
             </CardContent>
           </Card>
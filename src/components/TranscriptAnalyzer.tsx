@@ -1,62 +1,197 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToastAction } from '@/components/ui/toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { FileUpload } from './FileUpload';
+import { AudioMetadataSummary } from './AudioMetadataSummary';
 import { AnalysisResults } from './AnalysisResults';
+import { AccuracyReport } from './AccuracyReport';
+import { CompareView } from './CompareView';
+import { TranscriptViewer } from './TranscriptViewer';
+import { AudioPlayer } from './AudioPlayer';
+import { ErrataDialog } from './ErrataDialog';
+import { BatchQueue } from './BatchQueue';
 import { N8NWorkflow } from './N8NWorkflow';
-import { Scale, FileText, Volume2, Sparkles, Download, Workflow } from 'lucide-react';
+import { Scale, FileText, Volume2, Sparkles, Download, Workflow, CheckCircle, Loader2, Circle, Library, Layers, BookOpen, ShieldCheck, Columns2, AlertTriangle } from 'lucide-react';
+import { useAudioPlayer } from '@/hooks/use-audio-player';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
+import { checkLengthMismatch } from '@/lib/audio-metadata';
+import { JOB_STAGES, runAnalysis, type JobStage, type UploadField } from '@/lib/analysis-jobs';
+import type { FileUploadProgress } from '@/lib/chunked-upload';
+import { ApiValidationError } from '@/lib/api-client';
+import type { AlignmentOp, AnalysisData, AnalysisDownloads, LineMap, LineSpeakers, LineTiming } from '@/types/analysis';
+import { buildCorrectedTranscript, type ReviewDecision, type ReviewDecisions } from '@/lib/review';
+import { createProject, getProject, saveProject, updateProject, type Project } from '@/lib/project-store';
+import { downloadBase64, downloadBlob } from '@/lib/download';
+import type { ErrataDetails } from '@/lib/errata';
+import { formatPercent } from '@/lib/accuracy';
+import { getActiveTerms } from '@/lib/dictionary';
+import {
+  LOCAL_STAGES,
+  WHISPER_MODELS,
+  loadProcessingPreferences,
+  runLocalAnalysis,
+  saveProcessingPreferences,
+  type LocalStage,
+  type ProcessingMode,
+  type ProcessingPreferences,
+} from '@/lib/local-analysis';
+import { canParseTranscriptFile, readTranscriptFile, type TranscriptDocument } from '@/lib/transcript-parser';
 
-type ErrorType = 'spelling' | 'grammar' | 'audio_mismatch' | 'legal_term';
-
-interface AnalysisError {
-  line: number;
-  column: number;
-  original: string;
-  suggested: string;
-  confidence: number;
-  type: ErrorType;
-}
-interface AnalysisSummary {
-  totalErrors: number;
-  byType: Record<string, number>;
-  confidenceScore: number;
-  processingTime: number;
-}
-interface AnalysisData {
-  errors: AnalysisError[];
-  summary: AnalysisSummary;
+interface TranscriptAnalyzerProps {
+  // Library project to reopen into the Results tab
+  projectId?: string | null;
+  onProjectSaved?: (id: string) => void;
 }
 
-export const TranscriptAnalyzer: React.FC = () => {
+// Saving decisions rewrites the whole project record, recording included, so
+// it waits for a pause in the reviewer's clicks
+const DECISIONS_SAVE_DELAY_MS = 1000;
+
+export const TranscriptAnalyzer: React.FC<TranscriptAnalyzerProps> = ({ projectId, onProjectSaved }) => {
   const { toast } = useToast();
   const [transcriptFile, setTranscriptFile] = useState<File | null>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Per-file progress of the chunked upload that starts a server analysis
+  const [fileUploads, setFileUploads] = useState<Partial<Record<UploadField, FileUploadProgress>>>({});
   const [progress, setProgress] = useState(0);
+  const [jobStage, setJobStage] = useState<JobStage | LocalStage>('upload');
+  const [processing, setProcessing] = useState<ProcessingPreferences>(loadProcessingPreferences);
+  // Mode of the analysis in progress, which picks the stage list shown
+  const [runMode, setRunMode] = useState<ProcessingMode>('server');
+  const [activeTab, setActiveTab] = useState('upload');
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
-  const [correctedTranscript, setCorrectedTranscript] = useState<string>('');
-  const [downloads, setDownloads] = useState<{
-    txt: { b64: string; name: string; mime: string };
-    docx: { b64: string; name: string; mime: string };
-  } | null>(null);
-
-  const downloadBase64 = (b64: string, filename: string, mime: string) => {
-    const bytes = atob(b64);
-    const buf = new Uint8Array(bytes.length);
-    for (let i = 0; i < bytes.length; i++) buf[i] = bytes.charCodeAt(i);
-    const blob = new Blob([buf], { type: mime });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+  const [transcriptText, setTranscriptText] = useState<string>('');
+  const [decisions, setDecisions] = useState<ReviewDecisions>({});
+  const [lineTimings, setLineTimings] = useState<LineTiming[]>([]);
+  const [lineMap, setLineMap] = useState<LineMap>([]);
+  const [lineSpeakers, setLineSpeakers] = useState<LineSpeakers>([]);
+  const [alignment, setAlignment] = useState<AlignmentOp[]>([]);
+  const player = useAudioPlayer(audioFile);
+  const { metadata: audioMetadata, isReading: isReadingAudio } = useAudioMetadata(audioFile);
+  const [downloads, setDownloads] = useState<AnalysisDownloads | null>(null);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const [transcriptDoc, setTranscriptDoc] = useState<TranscriptDocument | null>(null);
+
+  const lengthWarning = useMemo(
+    () => (transcriptDoc && audioMetadata ? checkLengthMismatch(transcriptDoc.text, audioMetadata.duration) : null),
+    [transcriptDoc, audioMetadata]
+  );
+
+  // Parse text/RTF transcripts locally so pages and lines are known before upload
+  useEffect(() => {
+    setTranscriptDoc(null);
+    if (!transcriptFile || !canParseTranscriptFile(transcriptFile)) return;
+    let cancelled = false;
+    readTranscriptFile(transcriptFile)
+      .then(doc => !cancelled && setTranscriptDoc(doc))
+      .catch(err => console.error('Failed to parse transcript', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [transcriptFile]);
+
+  // Decisions not yet written to the library, and the project they belong to
+  const pendingDecisions = useRef<{ id: string; decisions: ReviewDecisions } | null>(null);
+
+  const flushDecisions = useCallback(() => {
+    const pending = pendingDecisions.current;
+    if (!pending) return;
+    pendingDecisions.current = null;
+    updateProject(pending.id, { decisions: pending.decisions }).catch(err => console.error('Failed to save decisions', err));
+  }, []);
+
+  const loadProject = useCallback((project: Project) => {
+    flushDecisions();
+    setCurrentProject(project);
+    setTranscriptFile(project.transcriptFile);
+    setAudioFile(project.audioFile);
+    setAnalysisData(project.analysis);
+    setTranscriptText(project.transcriptText);
+    setLineTimings(project.lineTimings);
+    setLineMap(project.lineMap ?? []);
+    setLineSpeakers(project.lineSpeakers ?? []);
+    setAlignment(project.alignment ?? []);
+    setDecisions(project.decisions);
+    setDownloads(project.downloads);
+  }, [flushDecisions]);
+
+  // Read by the loading effect without making every project change re-run it
+  const currentProjectId = useRef<string | null>(null);
+  useEffect(() => {
+    currentProjectId.current = currentProject?.id ?? null;
+  }, [currentProject]);
+
+  useEffect(() => {
+    if (!projectId || projectId === currentProjectId.current) return;
+    getProject(projectId)
+      .then(project => {
+        if (!project) throw new Error('This project is no longer in the library');
+        loadProject(project);
+        setActiveTab('results');
+      })
+      .catch(err => toast({
+        title: 'Could not open project',
+        description: err?.message || String(err),
+        variant: 'destructive',
+      }));
+  }, [projectId, loadProject, toast]);
+
+  // Keep reviewer decisions in the library as they are made
+  useEffect(() => {
+    // decisions are the project's own object right after loading; nothing to write yet
+    if (!currentProject || decisions === currentProject.decisions) return;
+    pendingDecisions.current = { id: currentProject.id, decisions };
+    const timer = setTimeout(flushDecisions, DECISIONS_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentProject, decisions, flushDecisions]);
+
+  // Whatever is still pending when the analyzer closes
+  useEffect(() => flushDecisions, [flushDecisions]);
+
+  // The reviewed transcript only contains changes the reporter has accepted or edited
+  const reviewedTranscript = useMemo(
+    () => analysisData ? buildCorrectedTranscript(transcriptText, analysisData.errors, decisions) : '',
+    [transcriptText, analysisData, decisions]
+  );
+
+  const handleDecisionChange = (index: number, decision: ReviewDecision) => {
+    setDecisions(prev => ({ ...prev, [index]: decision }));
   };
 
-  const handleAnalyze = async () => {
+  const handleErrataDetailsChange = (details: ErrataDetails) => {
+    if (!currentProject) return;
+    updateProject(currentProject.id, { errataDetails: details })
+      .then(setCurrentProject)
+      .catch(err => console.error('Failed to save errata details', err));
+  };
+
+  const downloadReviewed = () => {
+    downloadBlob(new Blob([reviewedTranscript], { type: 'text/plain' }), 'reviewed_transcript.txt');
+  };
+
+  const updateProcessing = (changes: Partial<ProcessingPreferences>) => {
+    const next = { ...processing, ...changes };
+    setProcessing(next);
+    saveProcessingPreferences(next);
+  };
+
+  // A new file has nothing uploaded yet
+  const selectFile = (field: UploadField, setFile: (file: File | null) => void) => (file: File | null) => {
+    setFile(file);
+    setFileUploads(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleAnalyze = async (mode: ProcessingMode = processing.mode) => {
     if (!transcriptFile || !audioFile) {
       toast({
         title: 'Missing Files',
@@ -68,57 +203,65 @@ export const TranscriptAnalyzer: React.FC = () => {
 
     setIsProcessing(true);
     setProgress(0);
+    setRunMode(mode);
+    setJobStage(mode === 'local' ? 'model' : 'upload');
+    setFileUploads({});
+    // Server runs stay on the Upload tab, where each file shows its progress, until the files are sent
+    if (mode === 'local') setActiveTab('analyze');
 
     try {
-      const apiBase = (import.meta.env.VITE_API_BASE || 'http://localhost:8787').replace(/\/$/, '');
-      const url = `${apiBase}/api/analyze`;
-
-      const form = new FormData();
-      // server accepts 'rtx' OR 'rtf'; we send 'rtx' consistently
-      form.append('rtx', transcriptFile);
-      form.append('audio', audioFile);
+      const dictionary = await getActiveTerms().catch(() => []);
+      const input = { transcriptFile, audioFile, transcriptDoc, dictionary };
+      const onUpdate = (stage: JobStage | LocalStage, percent: number) => {
+        setJobStage(stage);
+        setProgress(percent);
+        if (stage !== 'upload') setActiveTab(tab => (tab === 'upload' ? 'analyze' : tab));
+      };
+      const onFileUpload = (field: UploadField, upload: FileUploadProgress) =>
+        setFileUploads(prev => ({ ...prev, [field]: upload }));
+      const data = mode === 'local'
+        ? await runLocalAnalysis(input, processing.model, onUpdate)
+        : await runAnalysis(input, onUpdate, onFileUpload);
+      const project = createProject(transcriptFile, audioFile, data);
+      loadProject(project);
 
-      setProgress(10);
-      const resp = await fetch(url, { method: 'POST', body: form });
-
-      setProgress(50);
-
-      if (!resp.ok) {
-        const text = await resp.text().catch(() => '');
-        console.error('Analyze API error', resp.status, text);
-        throw new Error(`API ${resp.status}: ${text || 'Unknown error'}`);
-      }
-
-      const data = await resp.json();
-      // shape: { analysis: { errors, summary }, correctedTranscript, downloads? }
-      setAnalysisData(data.analysis as AnalysisData);
-      setCorrectedTranscript(data.correctedTranscript || '');
-
-      if (data.downloads?.txt_base64 && data.downloads?.docx_base64) {
-        setDownloads({
-          txt: { b64: data.downloads.txt_base64, name: data.downloads.filenames?.txt || 'corrected_transcript.txt', mime: 'text/plain' },
-          docx: { b64: data.downloads.docx_base64, name: data.downloads.filenames?.docx || 'corrected_transcript.docx', mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+      try {
+        await saveProject(project);
+        onProjectSaved?.(project.id);
+      } catch (saveErr) {
+        console.error('Failed to save project', saveErr);
+        toast({
+          title: 'Not saved to library',
+          description: 'The results are shown but could not be stored in this browser',
+          variant: 'destructive',
         });
-      } else {
-        setDownloads(null);
       }
 
       setProgress(100);
+      setActiveTab('results');
       toast({
         title: 'Analysis Complete',
-        description: `Found ${data.analysis?.summary?.totalErrors ?? 0} potential issues • confidence ${Math.round((data.analysis?.summary?.confidenceScore ?? 0) * 100)}%`,
+        description: `Found ${data.analysis.summary.totalErrors} potential issues • word accuracy ${formatPercent(data.analysis.summary.accuracy?.accuracy)}`,
       });
-    } catch (err: any) {
+    } catch (err) {
       toast({
-        title: 'Analysis Failed',
-        description: err?.message || 'An error occurred during transcript analysis',
+        title: err instanceof ApiValidationError ? 'Unexpected Server Response' : 'Analysis Failed',
+        description: err instanceof Error ? err.message : 'An error occurred during transcript analysis',
         variant: 'destructive',
+        // Uploading is the reporter's call, so the server is only ever an offered fallback
+        action: mode === 'local' ? (
+          <ToastAction altText="Analyze on the server instead" onClick={() => handleAnalyze('server')}>
+            Use server
+          </ToastAction>
+        ) : undefined,
       });
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const stages: { stage: JobStage | LocalStage; label: string }[] = runMode === 'local' ? LOCAL_STAGES : JOB_STAGES;
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       <div className="container mx-auto px-4 py-8">
@@ -131,11 +274,25 @@ export const TranscriptAnalyzer: React.FC = () => {
             AI-powered transcript analysis and correction for legal professionals.
             Upload your caseCatalyst files for automated error detection and correction.
           </p>
+          <div className="flex justify-center gap-2 mt-4">
+            <Button asChild variant="outline" size="sm">
+              <Link to="/projects">
+                <Library className="h-4 w-4 mr-2" />
+                Project Library
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link to="/dictionaries">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Dictionaries
+              </Link>
+            </Button>
+          </div>
         </div>
 
         <div className="max-w-6xl mx-auto">
-          <Tabs defaultValue="upload" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="upload" className="flex items-center gap-2">
                 <FileText className="h-4 w-4" />
                 Upload Files
@@ -148,6 +305,14 @@ export const TranscriptAnalyzer: React.FC = () => {
                 <Download className="h-4 w-4" />
                 Results
               </TabsTrigger>
+              <TabsTrigger value="compare" className="flex items-center gap-2" disabled={!analysisData}>
+                <Columns2 className="h-4 w-4" />
+                Compare
+              </TabsTrigger>
+              <TabsTrigger value="batch" className="flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                Batch
+              </TabsTrigger>
               <TabsTrigger value="workflow" className="flex items-center gap-2">
                 <Workflow className="h-4 w-4" />
                 N8N Workflow
@@ -167,10 +332,20 @@ export const TranscriptAnalyzer: React.FC = () => {
                   <CardContent>
                     <FileUpload
                       file={transcriptFile}
-                      onFileSelect={setTranscriptFile}
-                      accept=".txt,.rtf,.doc,.docx"
+                      onFileSelect={selectFile('transcript', setTranscriptFile)}
+                      kind="transcript"
                       label="Drop transcript file here or click to browse"
+                      upload={fileUploads.transcript}
+                      onRetryUpload={isProcessing ? undefined : () => handleAnalyze('server')}
                     />
+                    {transcriptDoc && (
+                      <p className="mt-3 text-xs text-muted-foreground">
+                        {transcriptDoc.isPaginated
+                          ? `${transcriptDoc.pages.length} pages · ${transcriptDoc.lines.length} numbered lines`
+                          : `No page/line numbering found · ${transcriptDoc.lines.length} lines`}
+                        {transcriptDoc.speakers.length > 0 && ` · ${transcriptDoc.speakers.length} speakers`}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -185,18 +360,67 @@ export const TranscriptAnalyzer: React.FC = () => {
                   <CardContent>
                     <FileUpload
                       file={audioFile}
-                      onFileSelect={setAudioFile}
-                      accept=".wav,.mp3,.m4a,.aac"
+                      onFileSelect={selectFile('audio', setAudioFile)}
+                      kind="audio"
                       label="Drop audio file here or click to browse"
-                    />
+                      upload={fileUploads.audio}
+                      onRetryUpload={isProcessing ? undefined : () => handleAnalyze('server')}
+                    >
+                      <AudioMetadataSummary metadata={audioMetadata} isReading={isReadingAudio} />
+                    </FileUpload>
                   </CardContent>
                 </Card>
               </div>
 
+              {lengthWarning && (
+                <Alert className="border-warning/50 text-warning [&>svg]:text-warning">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Transcript and audio lengths don't match</AlertTitle>
+                  <AlertDescription>{lengthWarning}</AlertDescription>
+                </Alert>
+              )}
+
+              <Card className="shadow-card">
+                <CardContent className="pt-6 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex items-start gap-3 flex-1">
+                    <Switch
+                      id="local-processing"
+                      checked={processing.mode === 'local'}
+                      onCheckedChange={(checked) => updateProcessing({ mode: checked ? 'local' : 'server' })}
+                    />
+                    <div className="space-y-1">
+                      <Label htmlFor="local-processing" className="flex items-center gap-2">
+                        <ShieldCheck className="h-4 w-4 text-success" />
+                        Process on this device
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Audio is transcribed in your browser and never uploaded, for sealed or confidential
+                        recordings. The model downloads once, then runs offline. No DOCX export in this mode.
+                      </p>
+                      {processing.mode === 'local' && transcriptFile && !canParseTranscriptFile(transcriptFile) && (
+                        <p className="text-xs text-warning">Local processing needs a .txt or .rtf transcript.</p>
+                      )}
+                    </div>
+                  </div>
+                  {processing.mode === 'local' && (
+                    <Select value={processing.model} onValueChange={(model) => updateProcessing({ model })}>
+                      <SelectTrigger className="md:w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WHISPER_MODELS.map(m => (
+                          <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </CardContent>
+              </Card>
+
               <div className="flex justify-center">
                 <Button
-                  onClick={handleAnalyze}
-                  disabled={!transcriptFile || !audioFile || isProcessing}
+                  onClick={() => handleAnalyze()}
+                  disabled={!transcriptFile || !audioFile || isProcessing || (processing.mode === 'local' && !transcriptDoc)}
                   variant="professional"
                   size="xl"
                   className="min-w-[200px]"
@@ -216,6 +440,23 @@ export const TranscriptAnalyzer: React.FC = () => {
                   <CardContent className="space-y-4">
                     <Progress value={progress} className="w-full" />
                     <p className="text-sm text-muted-foreground text-center">{Math.round(progress)}% Complete</p>
+                    <div className="grid sm:grid-cols-4 gap-2">
+                      {stages.map(({ stage, label }, index) => {
+                        const current = stages.findIndex(s => s.stage === jobStage);
+                        return (
+                          <div key={stage} className="flex items-center gap-2 text-sm">
+                            {index < current ? (
+                              <CheckCircle className="h-4 w-4 text-success" />
+                            ) : index === current ? (
+                              <Loader2 className="h-4 w-4 text-primary animate-spin" />
+                            ) : (
+                              <Circle className="h-4 w-4 text-muted-foreground" />
+                            )}
+                            <span className={index === current ? 'font-medium' : 'text-muted-foreground'}>{label}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
                   </CardContent>
                 </Card>
               ) : (
@@ -231,8 +472,42 @@ export const TranscriptAnalyzer: React.FC = () => {
             <TabsContent value="results" className="space-y-6">
               {analysisData && (
                 <>
-                  <AnalysisResults data={analysisData} />
+                  <AudioPlayer player={player} fileName={audioFile?.name} />
+                  <AnalysisResults
+                    data={analysisData}
+                    onSeek={player.seek}
+                    transcript={transcriptText}
+                    lineSpeakers={lineSpeakers}
+                  />
+                  <AccuracyReport
+                    key={currentProject?.id}
+                    report={analysisData.summary.accuracy}
+                    details={currentProject?.errataDetails}
+                    onDetailsChange={handleErrataDetailsChange}
+                  />
+                  <TranscriptViewer
+                    transcript={transcriptText}
+                    errors={analysisData.errors}
+                    decisions={decisions}
+                    onDecisionChange={handleDecisionChange}
+                    correctedTranscript={reviewedTranscript}
+                    lineTimings={lineTimings}
+                    currentTime={player.currentTime}
+                    onSeek={player.seek}
+                    lineMap={lineMap}
+                  />
                   <div className="flex justify-center gap-4">
+                    <Button onClick={downloadReviewed} variant="professional" size="lg">
+                      <Download className="h-4 w-4 mr-2" />
+                      Download reviewed .txt
+                    </Button>
+                    <ErrataDialog
+                      key={currentProject?.id}
+                      errors={analysisData.errors}
+                      decisions={decisions}
+                      details={currentProject?.errataDetails}
+                      onDetailsChange={handleErrataDetailsChange}
+                    />
                     <Button
                       onClick={() => downloads && downloadBase64(downloads.txt.b64, downloads.txt.name, downloads.txt.mime)}
                       variant="accent"
@@ -256,6 +531,27 @@ export const TranscriptAnalyzer: React.FC = () => {
               )}
             </TabsContent>
 
+            <TabsContent value="compare" className="space-y-6">
+              {analysisData && (
+                <>
+                  <AudioPlayer player={player} fileName={audioFile?.name} />
+                  <CompareView
+                    key={currentProject?.id}
+                    transcript={transcriptText}
+                    alignment={alignment}
+                    lineMap={lineMap}
+                    currentTime={player.currentTime}
+                    onSeek={player.seek}
+                  />
+                </>
+              )}
+            </TabsContent>
+
+            {/* Kept mounted so a running batch survives switching tabs */}
+            <TabsContent value="batch" forceMount className="space-y-6 data-[state=inactive]:hidden">
+              <BatchQueue />
+            </TabsContent>
+
             <TabsContent value="workflow" className="space-y-6">
               <N8NWorkflow />
             </TabsContent>
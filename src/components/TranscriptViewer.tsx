@@ -1,20 +1,40 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-
-interface TranscriptError {
-  line: number;
-  column: number;
-  original: string;
-  suggested: string;
-  confidence: number;
-  type: 'spelling' | 'grammar' | 'audio_mismatch' | 'legal_term';
-}
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Check, ChevronDown, ChevronUp, Pencil, Play, RotateCcw, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatErrorCitation, formatTimestamp } from '@/lib/format';
+import { findActiveLine, indexTimingsByLine } from '@/lib/timing';
+import { buildTranscriptRows, indexErrorsByLine, type IndexedError } from '@/lib/transcript-rows';
+import { errorRange, segmentLine } from '@/lib/highlight';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import type { AnalysisError, LineMap, LineTiming } from '@/types/analysis';
+import {
+  countDecisions,
+  getDecision,
+  type ReviewDecision,
+  type ReviewDecisions,
+  type ReviewStatus,
+} from '@/lib/review';
 
 interface TranscriptViewerProps {
   transcript: string;
-  errors: TranscriptError[];
+  errors: AnalysisError[];
+  // Review mode is enabled when decisions and a change handler are supplied
+  decisions?: ReviewDecisions;
+  onDecisionChange?: (index: number, decision: ReviewDecision) => void;
+  correctedTranscript?: string;
+  // Audio sync: highlights the line at currentTime and lets lines/errors seek the player
+  lineTimings?: LineTiming[];
+  currentTime?: number;
+  onSeek?: (time: number) => void;
+  // Printed page/line per transcript line; the gutter shows page:line when present
+  lineMap?: LineMap;
 }
 
 const getErrorColor = (type: string) => {
@@ -32,43 +52,358 @@ const getErrorColor = (type: string) => {
   }
 };
 
+const getStatusBadge = (status: ReviewStatus) => {
+  switch (status) {
+    case 'accepted':
+      return <Badge className="bg-success/20 text-success text-xs">Accepted</Badge>;
+    case 'rejected':
+      return <Badge className="bg-destructive/20 text-destructive text-xs">Rejected</Badge>;
+    case 'edited':
+      return <Badge className="bg-primary/20 text-primary text-xs">Edited</Badge>;
+    default:
+      return <Badge variant="outline" className="text-xs">Pending</Badge>;
+  }
+};
+
+interface ReviewItemProps {
+  error: AnalysisError;
+  decision: ReviewDecision;
+  onChange: (decision: ReviewDecision) => void;
+  onSeek?: (time: number) => void;
+  onLocate?: () => void;
+}
+
+const ReviewItem: React.FC<ReviewItemProps> = ({ error, decision, onChange, onSeek, onLocate }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(decision.text ?? error.suggested);
+
+  const saveEdit = () => {
+    onChange({ status: 'edited', text: draft });
+    setIsEditing(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        'border rounded-lg p-3 space-y-2 transition-colors',
+        decision.status === 'pending' ? 'bg-background' : 'bg-secondary/30'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {onLocate ? (
+            <button
+              type="button"
+              onClick={onLocate}
+              className="text-xs text-muted-foreground hover:text-primary hover:underline"
+              title="Show in transcript"
+            >
+              {formatErrorCitation(error)}
+            </button>
+          ) : (
+            <span className="text-xs text-muted-foreground">{formatErrorCitation(error)}</span>
+          )}
+          {getStatusBadge(decision.status)}
+          {onSeek && error.location?.start != null && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs font-mono"
+              onClick={() => onSeek(error.location.start)}
+            >
+              <Play className="h-3 w-3 mr-1" />
+              {formatTimestamp(error.location.start)}
+            </Button>
+          )}
+        </div>
+        <span className="text-xs text-muted-foreground">{Math.round(error.confidence * 100)}%</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <code className={cn('px-2 py-0.5 rounded', getErrorColor(error.type))}>{error.original}</code>
+        <span className="text-muted-foreground">→</span>
+        {decision.status === 'edited' && !isEditing ? (
+          <code className="bg-primary/20 text-primary px-2 py-0.5 rounded">{decision.text}</code>
+        ) : (
+          <code className="bg-success/20 text-success px-2 py-0.5 rounded">{error.suggested}</code>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveEdit();
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button size="sm" variant="outline" onClick={saveEdit}>
+            Save
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={decision.status === 'accepted' ? 'default' : 'outline'}
+            onClick={() => onChange({ status: 'accepted' })}
+          >
+            <Check className="h-3 w-3 mr-1" />
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant={decision.status === 'rejected' ? 'destructive' : 'outline'}
+            onClick={() => onChange({ status: 'rejected' })}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Reject
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+            <Pencil className="h-3 w-3 mr-1" />
+            Edit
+          </Button>
+          {decision.status !== 'pending' && (
+            <Button size="sm" variant="ghost" onClick={() => onChange({ status: 'pending' })}>
+              <RotateCcw className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Same names as the legend below the transcript
+const ERROR_TYPE_LABELS: Record<string, string> = {
+  spelling: 'Spelling',
+  grammar: 'Grammar',
+  audio_mismatch: 'Audio Mismatch',
+  legal_term: 'Legal Term',
+};
+
+/**
+ * A transcript line with its errors highlighted. Text is rendered as React
+ * children, never as HTML. Where errors overlap, the shortest one sets the colour
+ * and the tooltip lists every error covering that stretch.
+ */
+const HighlightedLine: React.FC<{ line: string; errors?: IndexedError[] }> = ({ line, errors = [] }) => {
+  if (errors.length === 0) {
+    return <span>{line}</span>;
+  }
+
+  const width = ({ error }: IndexedError) => {
+    const [start, end] = errorRange(error, line.length);
+    return end - start;
+  };
+
+  return (
+    <span>
+      {segmentLine(line, errors).map(({ start, end, errors: covering }) => {
+        const text = line.slice(start, end);
+        if (covering.length === 0) return <React.Fragment key={start}>{text}</React.Fragment>;
+
+        const innermost = covering.reduce((a, b) => (width(b) < width(a) ? b : a)).error;
+        const isInsertion = start === end;
+        const label = covering
+          .map(({ error }) => `${ERROR_TYPE_LABELS[error.type] ?? 'Unknown'}: suggested "${error.suggested}"`)
+          .join('; ');
+
+        return (
+          <Tooltip key={`${start}-${end}-${covering[0].index}`}>
+            <TooltipTrigger asChild>
+              <mark
+                tabIndex={0}
+                aria-label={isInsertion ? `Missing text. ${label}` : `${text}. ${label}`}
+                className={cn(
+                  'rounded cursor-help focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                  getErrorColor(innermost.type),
+                  covering.length > 1 && 'underline decoration-dotted underline-offset-4'
+                )}
+              >
+                {isInsertion ? '‸' : text}
+              </mark>
+            </TooltipTrigger>
+            <TooltipContent className="space-y-1 text-xs">
+              {covering.map(({ error, index }) => (
+                <p key={index}>
+                  <span className="font-medium">{ERROR_TYPE_LABELS[error.type] ?? 'Unknown'}</span>
+                  {' '}
+                  &ldquo;{error.original}&rdquo; → &ldquo;{error.suggested}&rdquo;
+                  {' '}
+                  <span className="text-muted-foreground">({Math.round(error.confidence * 100)}% confidence)</span>
+                </p>
+              ))}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </span>
+  );
+};
+
+// Rows are a fixed height so the viewer only has to render what's on screen
+const ROW_HEIGHT = 24;
+
+interface TranscriptLinesProps {
+  lines: string[];
+  errorsByLine: Map<number, IndexedError[]>;
+  timingsByLine: Map<number, LineTiming>;
+  activeLine: number | null;
+  // 1-based line to scroll to and outline; `at` makes repeated jumps to one line re-run
+  focus: { line: number; at: number } | null;
+  onSeek?: (time: number) => void;
+  lineMap?: LineMap;
+}
+
+const TranscriptLines: React.FC<TranscriptLinesProps> = ({
+  lines,
+  errorsByLine,
+  timingsByLine,
+  activeLine,
+  focus,
+  onSeek,
+  lineMap,
+}) => {
+  const { rows, rowOfLine } = useMemo(() => buildTranscriptRows(lines.length, lineMap), [lines.length, lineMap]);
+  const { containerProps, start, end, totalHeight, offsetTop, scrollToIndex } = useVirtualRows(rows.length, ROW_HEIGHT);
+
+  useEffect(() => {
+    if (activeLine !== null) scrollToIndex(rowOfLine[activeLine - 1] ?? -1);
+  }, [activeLine, rowOfLine, scrollToIndex]);
+
+  useEffect(() => {
+    if (focus) scrollToIndex(rowOfLine[focus.line - 1] ?? -1, 'center');
+  }, [focus, rowOfLine, scrollToIndex]);
+
+  return (
+    <div {...containerProps} className="h-[400px] w-full overflow-auto rounded border bg-background/50 px-4">
+      <div className="font-mono text-sm" style={{ height: totalHeight, paddingTop: offsetTop }}>
+        {rows.slice(start, end).map((row) => {
+          if (row.kind === 'page') {
+            return (
+              <div
+                key={`page-${row.page}`}
+                className="flex items-end text-xs text-muted-foreground border-t"
+                style={{ height: ROW_HEIGHT }}
+              >
+                p. {row.page}
+              </div>
+            );
+          }
+          const { index } = row;
+          const timing = timingsByLine.get(index + 1);
+          const isActive = activeLine === index + 1;
+          const isFocused = focus?.line === index + 1;
+          const printed = lineMap?.[index];
+          const label = printed ? `${printed[0]}:${printed[1]}` : String(index + 1);
+          return (
+            <div
+              key={index}
+              className={cn(
+                'flex items-center gap-4 rounded whitespace-nowrap',
+                isActive && 'bg-accent/20',
+                isFocused && 'ring-2 ring-primary/50'
+              )}
+              style={{ height: ROW_HEIGHT }}
+            >
+              {onSeek && timing ? (
+                <button
+                  type="button"
+                  onClick={() => onSeek(timing.start)}
+                  className="shrink-0 text-muted-foreground text-xs w-12 text-right hover:text-primary hover:underline"
+                  title={`Play from ${formatTimestamp(timing.start)}`}
+                >
+                  {label}
+                </button>
+              ) : (
+                <span className="shrink-0 text-muted-foreground text-xs w-12 text-right">
+                  {label}
+                </span>
+              )}
+              <div className="flex-1">
+                <HighlightedLine line={lines[index]} errors={errorsByLine.get(index + 1)} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({
   transcript,
-  errors
+  errors,
+  decisions,
+  onDecisionChange,
+  correctedTranscript,
+  lineTimings = [],
+  currentTime,
+  onSeek,
+  lineMap
 }) => {
-  const lines = transcript.split('\n');
-
-  const renderLineWithErrors = (line: string, lineNumber: number) => {
-    const lineErrors = errors.filter(error => error.line === lineNumber + 1);
-    
-    if (lineErrors.length === 0) {
-      return <span>{line}</span>;
-    }
-
-    let renderedLine = line;
-    
-    // Sort errors by column position (reverse order for replacement)
-    const sortedErrors = [...lineErrors].sort((a, b) => b.column - a.column);
-    
-    sortedErrors.forEach(error => {
-      const start = error.column - 1;
-      const end = start + error.original.length;
-      const before = renderedLine.substring(0, start);
-      const after = renderedLine.substring(end);
-      
-      const errorSpan = `<span class="relative inline-block ${getErrorColor(error.type)} px-1 rounded cursor-pointer group">
-        ${error.original}
-        <span class="absolute bottom-full left-0 bg-popover text-popover-foreground p-2 rounded shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 text-xs whitespace-nowrap z-10">
-          Suggested: "${error.suggested}" (${Math.round(error.confidence * 100)}% confidence)
-        </span>
-      </span>`;
-      
-      renderedLine = before + errorSpan + after;
-    });
-    
-    return <span dangerouslySetInnerHTML={{ __html: renderedLine }} />;
+  const lines = useMemo(() => transcript.split('\n'), [transcript]);
+  const isReviewing = !!decisions && !!onDecisionChange;
+  const counts = isReviewing ? countDecisions(errors, decisions) : null;
+  const [tab, setTab] = useState('review');
+  const [focus, setFocus] = useState<TranscriptLinesProps['focus']>(null);
+
+  const timingsByLine = useMemo(() => indexTimingsByLine(lineTimings), [lineTimings]);
+  const errorsByLine = useMemo(() => indexErrorsByLine(errors), [errors]);
+  const errorLines = useMemo(() => Array.from(errorsByLine.keys()).sort((a, b) => a - b), [errorsByLine]);
+  const activeLine = currentTime === undefined ? null : findActiveLine(lineTimings, currentTime);
+
+  const showLine = (line: number) => {
+    setTab('original');
+    setFocus({ line, at: Date.now() });
+  };
+
+  // Steps from the last jump, or from the line being played
+  const jumpToError = (direction: 1 | -1) => {
+    const from = focus?.line ?? activeLine ?? 0;
+    const target = direction === 1
+      ? errorLines.find(line => line > from) ?? errorLines[0]
+      : [...errorLines].reverse().find(line => line < from) ?? errorLines[errorLines.length - 1];
+    if (target !== undefined) setFocus({ line: target, at: Date.now() });
   };
 
+  const renderTranscript = () => (
+    <div className="space-y-2">
+      {errorLines.length > 0 && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-xs text-muted-foreground">
+            {errorLines.length} lines with errors
+          </span>
+          <Button size="sm" variant="outline" onClick={() => jumpToError(-1)}>
+            <ChevronUp className="h-3 w-3 mr-1" />
+            Previous error
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => jumpToError(1)}>
+            <ChevronDown className="h-3 w-3 mr-1" />
+            Next error
+          </Button>
+        </div>
+      )}
+      <TranscriptLines
+        lines={lines}
+        errorsByLine={errorsByLine}
+        timingsByLine={timingsByLine}
+        activeLine={activeLine}
+        focus={focus}
+        onSeek={onSeek}
+        lineMap={lineMap}
+      />
+    </div>
+  );
+
   return (
     <Card className="shadow-card">
       <CardHeader>
@@ -81,24 +416,62 @@ export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({
             <Badge variant="outline" className="text-xs">
               {errors.length} errors found
             </Badge>
+            {counts && (
+              <Badge variant="outline" className="text-xs">
+                {errors.length - counts.pending} / {errors.length} reviewed
+              </Badge>
+            )}
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <ScrollArea className="h-[400px] w-full rounded border bg-background/50 p-4">
-          <div className="font-mono text-sm space-y-1">
-            {lines.map((line, index) => (
-              <div key={index} className="flex gap-4">
-                <span className="text-muted-foreground text-xs w-8 text-right">
-                  {index + 1}
-                </span>
-                <div className="flex-1">
-                  {renderLineWithErrors(line, index)}
-                </div>
+        {isReviewing ? (
+          <Tabs value={tab} onValueChange={setTab} className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="review">Review</TabsTrigger>
+              <TabsTrigger value="original">Original</TabsTrigger>
+              <TabsTrigger value="corrected">Corrected</TabsTrigger>
+            </TabsList>
+            <TabsContent value="review">
+              <div className="flex justify-end gap-2 mb-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => errors.forEach((_error, index) => {
+                    if (getDecision(decisions, index).status === 'pending') {
+                      onDecisionChange(index, { status: 'accepted' });
+                    }
+                  })}
+                  disabled={counts.pending === 0}
+                >
+                  Accept remaining
+                </Button>
               </div>
-            ))}
-          </div>
-        </ScrollArea>
+              <ScrollArea className="h-[400px] w-full pr-3">
+                <div className="space-y-2">
+                  {errors.map((error, index) => (
+                    <ReviewItem
+                      key={index}
+                      error={error}
+                      decision={getDecision(decisions, index)}
+                      onChange={(decision) => onDecisionChange(index, decision)}
+                      onSeek={onSeek}
+                      onLocate={() => showLine(error.line)}
+                    />
+                  ))}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="original">{renderTranscript()}</TabsContent>
+            <TabsContent value="corrected">
+              <ScrollArea className="h-[400px] w-full rounded border bg-background/50 p-4">
+                <pre className="font-mono text-sm whitespace-pre-wrap">{correctedTranscript}</pre>
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        ) : (
+          renderTranscript()
+        )}
         
         {/* Error Legend */}
         <div className="mt-4 flex flex-wrap gap-2">
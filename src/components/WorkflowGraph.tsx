@@ -0,0 +1,128 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { N8NNode, N8NWorkflowJson } from '@/lib/n8n-workflow';
+
+interface WorkflowGraphProps {
+  workflow: N8NWorkflowJson;
+  // Names of nodes to outline as having problems
+  flagged?: string[];
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 56;
+const PADDING = 24;
+
+// Short label and colour per node type; anything else is drawn as a generic step
+const NODE_KINDS: Record<string, { label: string; className: string }> = {
+  'n8n-nodes-base.webhook': { label: 'Trigger', className: 'fill-accent/15 stroke-accent' },
+  'n8n-nodes-base.httpRequest': { label: 'HTTP Request', className: 'fill-primary/10 stroke-primary' },
+  'n8n-nodes-base.merge': { label: 'Merge', className: 'fill-primary/10 stroke-primary' },
+  'n8n-nodes-base.if': { label: 'Condition', className: 'fill-warning/15 stroke-warning' },
+  'n8n-nodes-base.switch': { label: 'Switch', className: 'fill-warning/15 stroke-warning' },
+  'n8n-nodes-base.wait': { label: 'Wait', className: 'fill-secondary stroke-border' },
+  'n8n-nodes-base.set': { label: 'Set', className: 'fill-secondary stroke-border' },
+  'n8n-nodes-base.stopAndError': { label: 'Stop and Error', className: 'fill-destructive/10 stroke-destructive' },
+  'n8n-nodes-base.convertToFile': { label: 'Convert to File', className: 'fill-secondary stroke-border' },
+  'n8n-nodes-base.emailSend': { label: 'Email', className: 'fill-success/15 stroke-success' },
+  'n8n-nodes-base.slack': { label: 'Slack', className: 'fill-success/15 stroke-success' },
+  'n8n-nodes-base.readWriteFile': { label: 'File', className: 'fill-success/15 stroke-success' },
+};
+const DEFAULT_KIND = { label: 'Step', className: 'fill-secondary stroke-border' };
+
+// Branch label for an edge leaving a condition node's output, if it has one
+const outputLabel = (node: N8NNode, output: number) => {
+  if (node.type === 'n8n-nodes-base.if') return output === 0 ? 'true' : 'false';
+  if (node.type !== 'n8n-nodes-base.switch') return null;
+  const rules = (node.parameters.rules as { rules?: { value2?: unknown; output?: number }[] })?.rules ?? [];
+  const rule = rules.find(r => r.output === output);
+  return rule ? String(rule.value2) : 'otherwise';
+};
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/** The workflow's nodes at their n8n canvas positions, with an arrow per connection. */
+export const WorkflowGraph: React.FC<WorkflowGraphProps> = ({ workflow, flagged = [] }) => {
+  if (workflow.nodes.length === 0) return null;
+
+  const xs = workflow.nodes.map(n => n.position[0]);
+  const ys = workflow.nodes.map(n => n.position[1]);
+  const minX = Math.min(...xs) - PADDING;
+  const minY = Math.min(...ys) - PADDING;
+  const width = Math.max(...xs) + NODE_WIDTH + PADDING - minX;
+  const height = Math.max(...ys) + NODE_HEIGHT + PADDING - minY;
+  const byName = new Map(workflow.nodes.map(node => [node.name, node]));
+
+  const edges = Object.entries(workflow.connections).flatMap(([from, { main }]) =>
+    main.flatMap((targets, output) =>
+      targets.map(target => ({ from: byName.get(from), to: byName.get(target.node), output }))
+    )
+  ).filter(edge => edge.from && edge.to);
+
+  return (
+    <svg
+      viewBox={`${minX} ${minY} ${width} ${height}`}
+      className="w-full h-auto max-h-[320px]"
+      role="img"
+      aria-label={`Workflow with ${workflow.nodes.length} nodes`}
+    >
+      <defs>
+        <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M0,0 L10,5 L0,10 z" className="fill-muted-foreground" />
+        </marker>
+      </defs>
+
+      {edges.map(({ from, to, output }, i) => {
+        const x1 = from.position[0] + NODE_WIDTH;
+        const y1 = from.position[1] + NODE_HEIGHT / 2;
+        const x2 = to.position[0];
+        const y2 = to.position[1] + NODE_HEIGHT / 2;
+        const bend = Math.max((x2 - x1) / 2, 20);
+        // Loops back to an earlier node are drawn as an arc under the row
+        const path = x2 < x1
+          ? `M${x1},${y1} C${x1 + 60},${y1 + NODE_HEIGHT * 1.5} ${x2 - 60},${y2 + NODE_HEIGHT * 1.5} ${x2},${y2}`
+          : `M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`;
+        const label = outputLabel(from, output);
+        return (
+          <g key={i}>
+            <path
+              d={path}
+              className="fill-none stroke-muted-foreground"
+              strokeWidth={1.5}
+              markerEnd="url(#workflow-arrow)"
+            />
+            {label && (
+              <text x={x1 + 6} y={y1 - 6 + output * 14} className="fill-muted-foreground text-[10px]">
+                {label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {workflow.nodes.map(node => {
+        const kind = NODE_KINDS[node.type] ?? DEFAULT_KIND;
+        const [x, y] = node.position;
+        return (
+          <g key={node.id}>
+            <title>{`${node.name} (${node.type})`}</title>
+            <rect
+              x={x}
+              y={y}
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={8}
+              strokeWidth={flagged.includes(node.name) ? 3 : 1.5}
+              className={cn(kind.className, flagged.includes(node.name) && 'stroke-destructive')}
+            />
+            <text x={x + 12} y={y + 24} className="fill-foreground text-xs font-semibold">
+              {truncate(node.name, 22)}
+            </text>
+            <text x={x + 12} y={y + 42} className="fill-muted-foreground text-[10px]">
+              {kind.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
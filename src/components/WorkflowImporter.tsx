@@ -0,0 +1,143 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, FileUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { WorkflowGraph } from './WorkflowGraph';
+import { importWorkflow } from '@/lib/n8n-import';
+import type { WorkflowConfig } from '@/lib/n8n-workflow';
+
+interface WorkflowImporterProps {
+  // The current form; fills in what the JSON doesn't say, like the webhook's host
+  base: WorkflowConfig;
+  onImport: (config: WorkflowConfig) => void;
+}
+
+const requirementBadge = {
+  set: { label: 'Set', className: 'bg-success/20 text-success' },
+  missing: { label: 'Missing', className: 'bg-destructive/20 text-destructive' },
+  unverified: { label: 'Set in n8n', className: 'bg-warning/20 text-warning' },
+};
+
+/** Paste or upload workflow JSON, check it, and load it into the builder form. */
+export const WorkflowImporter: React.FC<WorkflowImporterProps> = ({ base, onImport }) => {
+  const [text, setText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const result = useMemo(() => (text.trim() ? importWorkflow(text, base) : null), [text, base]);
+  const errors = result?.issues.filter(issue => issue.severity === 'error') ?? [];
+  const warnings = result?.issues.filter(issue => issue.severity === 'warning') ?? [];
+  // errors first
+  const issues = [...errors, ...warnings];
+  const flagged = [
+    ...(result?.issues.map(issue => issue.node) ?? []),
+    ...(result?.requirements.filter(r => r.status === 'missing').flatMap(r => r.nodes) ?? []),
+  ].filter(Boolean);
+
+  const loadFile = async (file: File) => setText(await file.text());
+
+  const apply = () => {
+    if (!result?.config) return;
+    onImport(result.config);
+    setText('');
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="h-5 w-5 text-primary" />
+          Import Workflow
+        </CardTitle>
+        <CardDescription>
+          Paste or upload a workflow exported from n8n to check it and load it back into the builder
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder='{"name": "...", "nodes": [...], "connections": {...}}'
+          className="h-32 font-mono text-xs"
+          aria-label="Workflow JSON to import"
+        />
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Upload JSON
+          </Button>
+          <Button variant="professional" size="sm" onClick={apply} disabled={!result?.config}>
+            Load into Builder
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            {issues.length === 0 && result.config && (
+              <p className="flex items-center gap-2 text-sm text-success">
+                <CheckCircle className="h-4 w-4" />
+                The builder reproduces this workflow exactly
+              </p>
+            )}
+            {issues.length > 0 && (
+              <ul className="space-y-1">
+                {issues.map((issue, i) => (
+                  <li
+                    key={i}
+                    className={cn(
+                      'flex items-start gap-2 text-sm',
+                      issue.severity === 'error' ? 'text-destructive' : 'text-warning'
+                    )}
+                  >
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {result.workflow && <WorkflowGraph workflow={result.workflow} flagged={flagged} />}
+
+            {result.requirements.length > 0 && (
+              <div className="space-y-3">
+                {result.requirements.map(requirement => (
+                  <div
+                    key={`${requirement.kind}:${requirement.name}`}
+                    className={cn(
+                      'flex items-center justify-between p-3 rounded-lg',
+                      requirement.status === 'missing' ? 'bg-destructive/10' : 'bg-secondary/50'
+                    )}
+                  >
+                    <div>
+                      <code className="text-sm font-mono">{requirement.name}</code>
+                      <p className="text-xs text-muted-foreground">{requirement.description}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Badge variant="secondary">{requirement.kind === 'env' ? 'Env var' : 'Credential'}</Badge>
+                      <Badge className={requirementBadge[requirement.status].className}>
+                        {requirementBadge[requirement.status].label}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import { History, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatResponseBody, type WorkflowTestRun } from '@/lib/workflow-test';
+import { SAMPLE_AUDIO_SECONDS } from '@/lib/sample-payload';
+
+interface WorkflowTestInspectorProps {
+  runs: WorkflowTestRun[];
+  onClear: () => void;
+}
+
+const statusClass = (run: WorkflowTestRun) => {
+  if (run.status === null) return 'bg-destructive/20 text-destructive';
+  if (run.status < 300) return 'bg-success/20 text-success';
+  if (run.status < 500) return 'bg-warning/20 text-warning';
+  return 'bg-destructive/20 text-destructive';
+};
+
+const statusLabel = (run: WorkflowTestRun) =>
+  run.status === null ? 'No response' : `${run.status}${run.statusText ? ` ${run.statusText}` : ''}`;
+
+/** Past test requests on the left; status, latency, headers and body of the selected one on the right. */
+export const WorkflowTestInspector: React.FC<WorkflowTestInspectorProps> = ({ runs, onClear }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = runs.find(run => run.id === selectedId) ?? runs[0];
+  const latestId = runs[0]?.id;
+
+  // A new run is shown as soon as it lands
+  useEffect(() => setSelectedId(null), [latestId]);
+
+  if (!selected) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Test Runs
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear history
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Each test posts a sample transcript and a {SAMPLE_AUDIO_SECONDS}-second synthesized audio clip to the webhook
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-[14rem_1fr] gap-4">
+          <ScrollArea className="h-[360px] rounded border">
+            {runs.map(run => (
+              <button
+                key={run.id}
+                type="button"
+                onClick={() => setSelectedId(run.id)}
+                className={cn(
+                  'w-full text-left px-3 py-2 border-b text-xs space-y-1 hover:bg-accent/10',
+                  run.id === selected.id && 'bg-accent/20'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <Badge className={cn('text-xs', statusClass(run))}>{run.status ?? 'Error'}</Badge>
+                  <span className="text-muted-foreground">{run.latencyMs} ms</span>
+                </div>
+                <div className="text-muted-foreground">{new Date(run.startedAt).toLocaleString()}</div>
+              </button>
+            ))}
+          </ScrollArea>
+
+          <div className="space-y-4 min-w-0">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge className={statusClass(selected)}>{statusLabel(selected)}</Badge>
+              <span>{selected.latencyMs} ms</span>
+              <code className="text-xs text-muted-foreground break-all">POST {selected.url}</code>
+            </div>
+
+            {selected.error && <p className="text-sm text-destructive">{selected.error}</p>}
+
+            {selected.status !== null && (
+              <>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Headers</h4>
+                  {selected.headers.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">None visible to the browser</p>
+                  ) : (
+                    <Table>
+                      <TableBody>
+                        {selected.headers.map(([name, value]) => (
+                          <TableRow key={name}>
+                            <TableCell className="py-1 font-mono text-xs w-48">{name}</TableCell>
+                            <TableCell className="py-1 font-mono text-xs break-all">{value}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">
+                    Body
+                    {selected.truncated && <span className="ml-2 text-xs font-normal text-muted-foreground">(truncated)</span>}
+                  </h4>
+                  <ScrollArea className="h-[200px] rounded border bg-secondary/50">
+                    <pre className="p-3 text-xs font-mono whitespace-pre-wrap break-all">
+                      {selected.body ? formatResponseBody(selected.body) : '(empty)'}
+                    </pre>
+                  </ScrollArea>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { readAudioMetadata, type AudioMetadata } from '@/lib/audio-metadata';
+
+/** Metadata for the selected recording; null while it's read or when no file is selected. */
+export function useAudioMetadata(file: File | null) {
+  const [metadata, setMetadata] = useState<AudioMetadata | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    setMetadata(null);
+    if (!file) return;
+    let cancelled = false;
+    setIsReading(true);
+    readAudioMetadata(file)
+      .then(result => !cancelled && setMetadata(result))
+      .catch(err => console.error('Failed to read audio metadata', err))
+      .finally(() => !cancelled && setIsReading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return { metadata, isReading };
+}
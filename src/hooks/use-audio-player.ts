@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState, type SyntheticEvent } from 'react';
+
+/**
+ * Tracks playback state for an uploaded audio file. Spread `audioProps` onto an
+ * <audio> element; `seek` jumps to a time and starts playback by default.
+ */
+export function useAudioPlayer(file: File | null) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    // The previous recording's position and length don't apply to this one
+    setCurrentTime(0);
+    setDuration(0);
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const seek = useCallback((time: number, play = true) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, time);
+    setCurrentTime(audio.currentTime);
+    if (play) audio.play().catch(() => undefined);
+  }, []);
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(() => undefined);
+    else audio.pause();
+  }, []);
+
+  const setRate = useCallback((rate: number) => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, []);
+
+  const audioProps = {
+    ref: audioRef,
+    src: url ?? undefined,
+    onTimeUpdate: (e: SyntheticEvent<HTMLAudioElement>) => setCurrentTime(e.currentTarget.currentTime),
+    onLoadedMetadata: (e: SyntheticEvent<HTMLAudioElement>) => setDuration(e.currentTarget.duration || 0),
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false),
+    onEnded: () => setIsPlaying(false),
+  };
+
+  return { audioProps, url, currentTime, duration, isPlaying, seek, toggle, setRate };
+}
+
+export type AudioPlayerState = ReturnType<typeof useAudioPlayer>;
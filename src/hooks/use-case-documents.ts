@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { EMPTY_CASE_DETAILS, type ErrataDetails } from '@/lib/errata';
+import type { DownloadFile } from '@/types/analysis';
+
+interface CaseDocumentsOptions {
+  // Whether the dialog holding the form is open
+  open: boolean;
+  // The project's saved details, which the form starts from
+  details?: ErrataDetails;
+  onDetailsChange?: (details: ErrataDetails) => void;
+  // Fields the documents can't be generated without, and the toast text when one is blank
+  required: (keyof ErrataDetails)[];
+  missingMessage: string;
+  failureTitle: string;
+  generate: (details: ErrataDetails) => Promise<DownloadFile[]>;
+}
+
+/**
+ * Case details form state for the errata sheet and accuracy certificate, and the
+ * export that saves the details on the project and downloads every document.
+ */
+export function useCaseDocuments({
+  open,
+  details,
+  onDetailsChange,
+  required,
+  missingMessage,
+  failureTitle,
+  generate,
+}: CaseDocumentsOptions) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ErrataDetails>(details ?? EMPTY_CASE_DETAILS);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Each opening starts from the saved details, which may have been saved from
+  // the other dialog or loaded with a project since the form was last shown
+  useEffect(() => {
+    if (open) setForm(details ?? EMPTY_CASE_DETAILS);
+  }, [open, details]);
+
+  // Resolves true once the documents are downloaded
+  const exportDocuments = async () => {
+    if (required.some(field => !form[field].trim())) {
+      toast({ title: 'Missing details', description: missingMessage, variant: 'destructive' });
+      return false;
+    }
+    setIsGenerating(true);
+    try {
+      const files = await generate(form);
+      onDetailsChange?.(form);
+      files.forEach(downloadFile);
+      return true;
+    } catch (err) {
+      toast({
+        title: failureTitle,
+        description: err instanceof Error ? err.message : String(err),
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return { form, setForm, isGenerating, exportDocuments };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  DEFAULT_ERROR_FILTERS,
+  filtersFromParams,
+  filtersToParams,
+  type ErrorFilters,
+} from '@/lib/error-filters';
+
+/**
+ * Error list filters kept in the URL query, so a filtered view can be shared
+ * as a link. Updates replace the history entry instead of adding one per keystroke.
+ */
+export function useErrorFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+
+  const updateFilters = useCallback(
+    (changes: Partial<ErrorFilters>) =>
+      setSearchParams(
+        current => filtersToParams({ ...filtersFromParams(current), ...changes }, current),
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  const resetFilters = useCallback(
+    () => setSearchParams(current => filtersToParams(DEFAULT_ERROR_FILTERS, current), { replace: true }),
+    [setSearchParams]
+  );
+
+  return { filters, updateFilters, resetFilters };
+}
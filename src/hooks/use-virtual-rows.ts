@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState, type UIEvent } from 'react';
+
+/**
+ * Windowing for a scrollable list of fixed-height rows: only rows in (or near)
+ * the viewport are rendered. Spread `containerProps` onto the scroll container,
+ * give its only child `totalHeight` and `offsetTop` as height and top padding,
+ * and render rows `start` to `end` (exclusive) inside it.
+ */
+export function useVirtualRows(count: number, rowHeight: number, overscan = 10) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((e: UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop), []);
+
+  const scrollToIndex = useCallback(
+    (index: number, align: 'nearest' | 'center' = 'nearest') => {
+      const container = containerRef.current;
+      if (!container || index < 0) return;
+      const top = index * rowHeight;
+      const bottom = top + rowHeight;
+      const view = container.clientHeight;
+      if (align === 'center') {
+        container.scrollTop = Math.max(0, top - (view - rowHeight) / 2);
+      } else if (top < container.scrollTop) {
+        container.scrollTop = top;
+      } else if (bottom > container.scrollTop + view) {
+        container.scrollTop = bottom - view;
+      }
+    },
+    [rowHeight]
+  );
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerProps: { ref: containerRef, onScroll },
+    start,
+    end,
+    totalHeight: count * rowHeight,
+    offsetTop: start * rowHeight,
+    scrollToIndex,
+  };
+}
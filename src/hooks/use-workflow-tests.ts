@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import {
+  MAX_TEST_RUNS,
+  loadTestHistory,
+  runWorkflowTest,
+  saveTestHistory,
+  type WorkflowTestRun,
+} from '@/lib/workflow-test';
+
+/** Test runs against a workflow webhook, newest first, remembered across reloads. */
+export function useWorkflowTests() {
+  const [runs, setRuns] = useState<WorkflowTestRun[]>(loadTestHistory);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runTest = useCallback(async (url: string) => {
+    setIsRunning(true);
+    try {
+      const run = await runWorkflowTest(url);
+      setRuns(prev => {
+        const next = [run, ...prev].slice(0, MAX_TEST_RUNS);
+        saveTestHistory(next);
+        return next;
+      });
+      return run;
+    } finally {
+      setIsRunning(false);
+    }
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setRuns([]);
+    saveTestHistory([]);
+  }, []);
+
+  return { runs, isRunning, runTest, clearHistory };
+}
@@ -0,0 +1,55 @@
+"""Writes difflib.json: SequenceMatcher results that src/lib/diff.ts must reproduce.
+
+Run from this directory with `python3 make_difflib_fixtures.py` after changing the cases.
+"""
+import difflib
+import json
+import random
+import re
+
+
+def tokens(text):
+    # The alignment service's tokenizer, lowercased as it compares them
+    return [t.lower() for t in re.findall(r"\w+|[^\w\s]", text, re.UNICODE)]
+
+
+random.seed(7)
+vocabulary = ["the", "the", "the", "witness", "counsel", "objection", "sustained", "exhibit", "a", "of"]
+long_a = [random.choice(vocabulary) for _ in range(320)]
+long_b = [w if random.random() > 0.1 else random.choice(vocabulary) for w in long_a]
+del long_b[40:45]
+# Only "the" is popular enough to drop here
+numbered_a = ["the" if i % 3 == 0 else f"line{i}" for i in range(300)]
+numbered_b = numbered_a[:100] + ["objection"] + numbered_a[103:250] + numbered_a[260:]
+
+cases = [
+    ("identical words", tokens("Q. Where were you?"), tokens("Q. Where were you?")),
+    ("empty", [], []),
+    ("all deleted", tokens("Yes, sir."), []),
+    (
+        "transcript against audio",
+        tokens("Q. And where did you go after the the meeting? A. I went to the store."),
+        tokens("and where did you go after the meeting I went to this store yeah"),
+    ),
+    ("repeated words", tokens("no no no yes no"), tokens("no yes no no")),
+    ("long, every word popular (autojunk)", long_a, long_b),
+    ("long, one popular word (autojunk)", numbered_a, numbered_b),
+    ("characters", list("objection"), list("objectoin")),
+    ("characters, first letter differs", list("kowalski"), list("cowalski")),
+]
+
+fixtures = []
+for name, a, b in cases:
+    matcher = difflib.SequenceMatcher(a=a, b=b)
+    fixtures.append({
+        "name": name,
+        "a": a,
+        "b": b,
+        "opcodes": [list(op) for op in matcher.get_opcodes()],
+        "ratio": matcher.ratio(),
+        "quickRatio": matcher.quick_ratio(),
+    })
+
+# One case per line keeps the long token lists readable in diffs
+with open("difflib.json", "w") as f:
+    f.write("[\n" + ",\n".join(json.dumps(case) for case in fixtures) + "\n]\n")
@@ -0,0 +1,18 @@
+import type { AccuracyReport, PageAccuracy } from '@/types/analysis';
+
+export interface AccuracyCertificateDocuments {
+  pdf_base64: string;
+  html_base64: string;
+  filenames: { pdf: string; html: string };
+}
+
+/** 0.98765 → "98.77%", matching the certificate; null → "n/a". */
+export const formatPercent = (value: number | null | undefined) =>
+  value == null ? 'n/a' : `${(value * 100).toFixed(2)}%`;
+
+/** Measured pages, least accurate first, for spotting where a reporter struggled. */
+export const weakestPages = (report: AccuracyReport, count = 5): PageAccuracy[] =>
+  report.pages
+    .filter(page => page.accuracy !== null)
+    .sort((a, b) => a.accuracy - b.accuracy || a.page - b.page)
+    .slice(0, count);
@@ -0,0 +1,96 @@
+import type { TranscriptDocument } from '@/lib/transcript-parser';
+import type { DictionaryTerm } from '@/lib/dictionary';
+import { fetchJobResult, submitAnalysisJob, watchAnalysisJob } from '@/lib/api-client';
+import { uploadFile, type FileUploadProgress } from '@/lib/chunked-upload';
+
+export type JobStage = 'upload' | 'transcription' | 'alignment' | 'document' | 'done';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  // Overall progress 0..100 across all stages
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const JOB_STAGES: { stage: Exclude<JobStage, 'done'>; label: string }[] = [
+  { stage: 'upload', label: 'Uploading files' },
+  { stage: 'transcription', label: 'Transcribing audio' },
+  { stage: 'alignment', label: 'Aligning transcript' },
+  { stage: 'document', label: 'Building documents' },
+];
+
+// The server counts the upload as the first 10% of a job
+const UPLOAD_WEIGHT = 10;
+
+export interface AnalysisInput {
+  transcriptFile: File;
+  audioFile: File;
+  // Locally parsed transcript; when present errors come back with printed page:line locations
+  transcriptDoc?: TranscriptDocument | null;
+  // Terms from the active dictionaries; matches come back as legal_term errors
+  dictionary?: DictionaryTerm[];
+}
+
+export type UploadField = 'transcript' | 'audio';
+
+export const buildAnalysisForm = (
+  { transcriptFile, audioFile, transcriptDoc, dictionary }: AnalysisInput,
+  // Ids of files already sent through the chunked upload API, which are then not attached again
+  uploadIds?: Record<UploadField, string>
+) => {
+  const form = new FormData();
+  if (uploadIds) {
+    form.append('rtx_upload', uploadIds.transcript);
+    form.append('audio_upload', uploadIds.audio);
+  } else {
+    // server accepts 'rtx' OR 'rtf'; we send 'rtx' consistently
+    form.append('rtx', transcriptFile);
+    form.append('audio', audioFile);
+  }
+  if (transcriptDoc) {
+    form.append('plain_text', transcriptDoc.text);
+    form.append('line_map', JSON.stringify(transcriptDoc.lines.map(l => [l.page, l.line])));
+    form.append('line_speakers', JSON.stringify(transcriptDoc.lines.map(l => l.speaker)));
+  }
+  if (dictionary?.length) form.append('dictionary', JSON.stringify(dictionary));
+  return form;
+};
+
+/**
+ * Upload both files in resumable chunks, submit a job for them, follow its
+ * stage events until it finishes, then fetch the full result.
+ */
+export const runAnalysis = async (
+  input: AnalysisInput,
+  onUpdate?: (stage: JobStage, progress: number) => void,
+  onFileUpload?: (field: UploadField, progress: FileUploadProgress) => void
+) => {
+  onUpdate?.('upload', 0);
+  const sizes = { transcript: input.transcriptFile.size, audio: input.audioFile.size };
+  const uploaded = { transcript: 0, audio: 0 };
+  const track = (field: UploadField) => (progress: FileUploadProgress) => {
+    uploaded[field] = progress.fraction * sizes[field];
+    onUpdate?.('upload', ((uploaded.transcript + uploaded.audio) / (sizes.transcript + sizes.audio)) * UPLOAD_WEIGHT);
+    onFileUpload?.(field, progress);
+  };
+  const [transcript, audio] = await Promise.all([
+    uploadFile(input.transcriptFile, track('transcript')),
+    uploadFile(input.audioFile, track('audio')),
+  ]);
+  const job = await submitAnalysisJob(buildAnalysisForm(input, { transcript, audio }));
+
+  await new Promise<void>((resolve, reject) => {
+    watchAnalysisJob(job.id, {
+      onProgress: (update) => onUpdate?.(update.stage, update.progress),
+      onComplete: () => resolve(),
+      onError: (message) => reject(new Error(message)),
+    });
+  });
+
+  return fetchJobResult(job.id);
+};
@@ -0,0 +1,199 @@
+import type { z } from 'zod';
+import type { AnalysisJob } from '@/lib/analysis-jobs';
+import type { ErrataDetails, ErrataEntry } from '@/lib/errata';
+import type { AccuracyReport } from '@/types/analysis';
+import {
+  accuracyCertificateSchema,
+  analysisJobSchema,
+  analyzeResponseSchema,
+  errataDocumentsSchema,
+  jobCreatedSchema,
+  jobResultSchema,
+  uploadResponseSchema,
+} from '@/lib/api-schema';
+
+// Every request to the API server goes through here, and every response is
+// validated before the rest of the app sees it.
+
+export const getApiBase = () =>
+  (import.meta.env.VITE_API_BASE || 'http://localhost:8787').replace(/\/$/, '');
+
+/** The server answered with an error status. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(`API ${status}: ${message}`);
+    this.name = 'ApiError';
+  }
+}
+
+/** The server answered, but not with the shape the app expects. */
+export class ApiValidationError extends Error {
+  constructor(public endpoint: string, public issues: z.ZodIssue[]) {
+    const details = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(`Unexpected response from ${endpoint}: ${details}${more}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+const validate = <T,>(schema: z.ZodType<T>, data: unknown, endpoint: string): T => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) throw new ApiValidationError(endpoint, parsed.error.issues);
+  return parsed.data;
+};
+
+// Error bodies are { error, details? } from our server, but proxies may send anything
+const errorMessage = (body: unknown, fallback: string) => {
+  if (body && typeof body === 'object' && 'error' in body) {
+    const { error, details } = body as { error: unknown; details?: unknown };
+    return details ? `${error} (${details})` : String(error);
+  }
+  return typeof body === 'string' && body ? body : fallback;
+};
+
+const request = async <T,>(path: string, schema: z.ZodType<T>, init?: RequestInit) => {
+  let resp: Response;
+  try {
+    resp = await fetch(`${getApiBase()}${path}`, init);
+  } catch {
+    throw new Error(`Could not reach the API server at ${getApiBase()}`);
+  }
+  const text = await resp.text();
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Non-JSON bodies are reported as text below
+  }
+  if (!resp.ok) throw new ApiError(resp.status, errorMessage(body, resp.statusText || 'Unknown error'));
+  if (typeof body === 'string') throw new ApiValidationError(path, [{ code: 'custom', path: [], message: 'Expected JSON' }]);
+  return validate(schema, body, path);
+};
+
+/** POST /api/analyze: blocks until the analysis finishes. */
+export const analyzeTranscript = (form: FormData) =>
+  request('/api/analyze', analyzeResponseSchema, { method: 'POST', body: form });
+
+/**
+ * POST /api/jobs. Uses XHR rather than fetch so the upload can report real
+ * byte progress (0..1).
+ */
+export const submitAnalysisJob = (form: FormData, onUploadProgress?: (fraction: number) => void) =>
+  new Promise<AnalysisJob>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${getApiBase()}/api/jobs`);
+    xhr.responseType = 'json';
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onUploadProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status !== 202) {
+        reject(new ApiError(xhr.status, errorMessage(xhr.response, 'Unknown error')));
+        return;
+      }
+      try {
+        resolve(validate(jobCreatedSchema, xhr.response, '/api/jobs').job);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading files'));
+    xhr.send(form);
+  });
+
+/**
+ * Follow a job over Server-Sent Events until it completes or fails.
+ * Returns a function that closes the stream.
+ */
+export const watchAnalysisJob = (
+  jobId: string,
+  handlers: {
+    onProgress: (job: AnalysisJob) => void;
+    onComplete: (job: AnalysisJob) => void;
+    onError: (message: string) => void;
+  }
+) => {
+  const endpoint = `/api/jobs/${jobId}/events`;
+  const source = new EventSource(`${getApiBase()}${endpoint}`);
+  // A malformed event ends the watch rather than feeding bad state to the UI
+  const listen = (event: string, handle: (job: AnalysisJob) => void) =>
+    source.addEventListener(event, (e) => {
+      let job: AnalysisJob;
+      try {
+        job = validate(analysisJobSchema, JSON.parse((e as MessageEvent).data), endpoint);
+      } catch (err) {
+        source.close();
+        handlers.onError(err instanceof Error ? err.message : String(err));
+        return;
+      }
+      handle(job);
+    });
+
+  listen('progress', handlers.onProgress);
+  listen('complete', (job) => {
+    source.close();
+    handlers.onComplete(job);
+  });
+  listen('failed', (job) => {
+    source.close();
+    handlers.onError(job.error || 'Analysis failed');
+  });
+  source.onerror = () => {
+    // EventSource reconnects on its own while the connection is merely interrupted
+    if (source.readyState === EventSource.CLOSED) handlers.onError('Lost connection to the job stream');
+  };
+
+  return () => source.close();
+};
+
+/** GET /api/jobs/:id for a finished job's result. */
+export const fetchJobResult = async (jobId: string) => {
+  const { job, result } = await request(`/api/jobs/${jobId}`, jobResultSchema);
+  if (!result) throw new Error(job.error || `Job ${jobId} has no result yet`);
+  return result;
+};
+
+/** POST /api/uploads: open a resumable upload session for a file. */
+export const createUploadSession = async (file: File, chunkSize: number) => {
+  const { upload } = await request('/api/uploads', uploadResponseSchema, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename: file.name, size: file.size, chunkSize }),
+  });
+  return upload;
+};
+
+/** GET /api/uploads/:id, listing the chunks the server already has. */
+export const fetchUploadSession = async (uploadId: string) =>
+  (await request(`/api/uploads/${uploadId}`, uploadResponseSchema)).upload;
+
+/** PUT /api/uploads/:id/chunks/:index with the chunk's raw bytes. */
+export const uploadChunk = async (uploadId: string, index: number, chunk: Blob) =>
+  (await request(`/api/uploads/${uploadId}/chunks/${index}`, uploadResponseSchema, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: chunk,
+  })).upload;
+
+/** POST /api/uploads/:id/complete once every chunk is on the server. */
+export const completeUploadSession = async (uploadId: string) =>
+  (await request(`/api/uploads/${uploadId}/complete`, uploadResponseSchema, { method: 'POST' })).upload;
+
+/** POST /api/errata: DOCX and PDF errata sheets for the given corrections. */
+export const requestErrataDocuments = (details: ErrataDetails, entries: ErrataEntry[]) =>
+  request('/api/errata', errataDocumentsSchema, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...details, entries }),
+  });
+
+/** POST /api/accuracy-certificate: PDF and HTML accuracy certificates for a report. */
+export const requestAccuracyCertificate = (details: ErrataDetails, accuracy: AccuracyReport) =>
+  request('/api/accuracy-certificate', accuracyCertificateSchema, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...details, accuracy }),
+  });
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import type {
+  AccuracyReport,
+  AlignmentOp,
+  AnalysisData,
+  AnalysisError,
+  AnalysisSummary,
+  AnalyzeResponse,
+  ErrorLocation,
+  ErrorType,
+  LineMap,
+  LineSpeakers,
+  LineTiming,
+  PageAccuracy,
+  WordTiming,
+} from '@/types/analysis';
+import type { AnalysisJob, JobStage, JobStatus } from '@/lib/analysis-jobs';
+import type { ErrataDocuments } from '@/lib/errata';
+import type { AccuracyCertificateDocuments } from '@/lib/accuracy';
+import type { UploadSession } from '@/lib/chunked-upload';
+
+// Wire formats of the API server (app/server) and the alignment service behind it.
+// Without strictNullChecks zod infers every key as optional, so each schema is
+// pinned to the hand-written type it validates.
+
+export const errorTypeSchema = z.enum(['spelling', 'grammar', 'audio_mismatch', 'legal_term']) as z.ZodType<ErrorType>;
+
+export const errorLocationSchema = z.object({
+  page: z.number().int(),
+  line: z.number().int(),
+  offset: z.number().int(),
+  length: z.number().int(),
+  start: z.number().nullish(),
+  end: z.number().nullish(),
+}) as z.ZodType<ErrorLocation>;
+
+export const analysisErrorSchema = z.object({
+  line: z.number().int(),
+  column: z.number().int(),
+  original: z.string(),
+  suggested: z.string(),
+  confidence: z.number().min(0).max(1),
+  type: errorTypeSchema,
+  location: errorLocationSchema.nullish(),
+  speaker: z.string().nullish(),
+}) as z.ZodType<AnalysisError>;
+
+export const pageAccuracySchema = z.object({
+  page: z.number().int(),
+  referenceWords: z.number().int(),
+  substitutions: z.number().int(),
+  deletions: z.number().int(),
+  insertions: z.number().int(),
+  accuracy: z.number().nullable(),
+}) as z.ZodType<PageAccuracy>;
+
+export const accuracyReportSchema = z.object({
+  referenceWords: z.number().int(),
+  transcriptWords: z.number().int(),
+  correctWords: z.number().int(),
+  substitutions: z.number().int(),
+  deletions: z.number().int(),
+  insertions: z.number().int(),
+  wer: z.number().nullable(),
+  accuracy: z.number().nullable(),
+  pages: z.array(pageAccuracySchema),
+}) as z.ZodType<AccuracyReport>;
+
+export const analysisSummarySchema = z.object({
+  totalErrors: z.number().int(),
+  byType: z.record(z.number()),
+  confidenceScore: z.number(),
+  processingTime: z.number(),
+  accuracy: accuracyReportSchema.nullish(),
+}) as z.ZodType<AnalysisSummary>;
+
+export const analysisDataSchema = z.object({
+  errors: z.array(analysisErrorSchema),
+  summary: analysisSummarySchema,
+}) as z.ZodType<AnalysisData>;
+
+export const wordTimingSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+}) as z.ZodType<WordTiming>;
+
+// zod types tuples with a rest element, which TS won't compare to [number, number] directly
+export const lineMapSchema = z.array(z.tuple([z.number().int(), z.number().int()])) as unknown as z.ZodType<LineMap>;
+export const lineSpeakersSchema = z.array(z.string().nullable()) as z.ZodType<LineSpeakers>;
+
+export const lineTimingSchema = z.object({
+  line: z.number().int(),
+  start: z.number(),
+  end: z.number(),
+}) as z.ZodType<LineTiming>;
+
+export const alignmentOpSchema = z.object({
+  tag: z.enum(['equal', 'replace', 'insert', 'delete']),
+  offset: z.number().int(),
+  length: z.number().int(),
+  audioText: z.string(),
+  start: z.number().nullish(),
+  end: z.number().nullish(),
+}) as z.ZodType<AlignmentOp>;
+
+export const analyzeResponseSchema = z.object({
+  analysis: analysisDataSchema,
+  transcriptText: z.string().optional(),
+  words: z.array(wordTimingSchema).optional(),
+  lineTimings: z.array(lineTimingSchema).optional(),
+  alignment: z.array(alignmentOpSchema).optional(),
+  lineMap: lineMapSchema.optional(),
+  lineSpeakers: lineSpeakersSchema.optional(),
+  correctedTranscript: z.string().optional(),
+  downloads: z.object({
+    txt_base64: z.string(),
+    docx_base64: z.string(),
+    filenames: z.object({ txt: z.string().optional(), docx: z.string().optional() }).optional(),
+  }).nullish(),
+}) as z.ZodType<AnalyzeResponse>;
+
+export const jobStageSchema = z.enum(['upload', 'transcription', 'alignment', 'document', 'done']) as z.ZodType<JobStage>;
+export const jobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed']) as z.ZodType<JobStatus>;
+
+export const analysisJobSchema = z.object({
+  id: z.string(),
+  status: jobStatusSchema,
+  stage: jobStageSchema,
+  progress: z.number(),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}) as z.ZodType<AnalysisJob>;
+
+export const jobCreatedSchema = z.object({
+  jobId: z.string(),
+  job: analysisJobSchema,
+});
+
+export const jobResultSchema = z.object({
+  job: analysisJobSchema,
+  result: analyzeResponseSchema.nullable(),
+});
+
+export const uploadSessionSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  size: z.number(),
+  chunkSize: z.number(),
+  totalChunks: z.number(),
+  receivedChunks: z.array(z.number()),
+  status: z.enum(['uploading', 'complete']),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}) as z.ZodType<UploadSession>;
+
+export const uploadResponseSchema = z.object({
+  upload: uploadSessionSchema,
+});
+
+export const errataDocumentsSchema = z.object({
+  docx_base64: z.string(),
+  pdf_base64: z.string(),
+  filenames: z.object({ docx: z.string(), pdf: z.string() }),
+}) as z.ZodType<ErrataDocuments>;
+
+export const accuracyCertificateSchema = z.object({
+  pdf_base64: z.string(),
+  html_base64: z.string(),
+  filenames: z.object({ pdf: z.string(), html: z.string() }),
+}) as z.ZodType<AccuracyCertificateDocuments>;
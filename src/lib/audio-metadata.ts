@@ -0,0 +1,133 @@
+import { readHeader } from '@/lib/file-validation';
+
+export interface AudioMetadata {
+  // Seconds
+  duration: number | null;
+  // Hz, as recorded in the file when the header says so
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+// Web Audio decodes the whole file into memory as 32-bit samples, so larger
+// recordings are only read from their header and the browser's media metadata
+const DECODE_LIMIT_BYTES = 64 * 1024 * 1024;
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/** Sample rate, channels and (for WAV) duration from the first bytes of a file. */
+export const parseAudioHeader = (bytes: Uint8Array, fileSize: number): Partial<AudioMetadata> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (tag(0) === 'RIFF' && tag(8) === 'WAVE') {
+    const result: Partial<AudioMetadata> = {};
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const id = tag(offset);
+      const size = view.getUint32(offset + 4, true);
+      if (id === 'fmt ' && offset + 24 <= bytes.length) {
+        result.channels = view.getUint16(offset + 10, true);
+        result.sampleRate = view.getUint32(offset + 12, true);
+        byteRate = view.getUint32(offset + 16, true);
+      } else if (id === 'data') {
+        // Streaming encoders leave the size at 0 or 0xFFFFFFFF; use the file size then
+        const dataSize = size && size !== 0xffffffff ? size : fileSize - offset - 8;
+        if (byteRate) result.duration = dataSize / byteRate;
+        break;
+      }
+      offset += 8 + size + (size % 2);
+    }
+    return result;
+  }
+
+  // Skip an ID3v2 tag to reach the first MPEG frame
+  let start = 0;
+  if (tag(0).startsWith('ID3') && bytes.length >= 10) {
+    start = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+  }
+  if (start + 4 <= bytes.length && bytes[start] === 0xff && (bytes[start + 1] & 0xe0) === 0xe0) {
+    const b1 = bytes[start + 1];
+    const b2 = bytes[start + 2];
+    const b3 = bytes[start + 3];
+    if ((b1 & 0x06) === 0) {
+      // ADTS (AAC)
+      const channels = ((b2 & 0x01) << 2) | (b3 >> 6);
+      return { sampleRate: ADTS_SAMPLE_RATES[(b2 >> 2) & 0x0f] ?? null, channels: channels || null };
+    }
+    const rates = MP3_SAMPLE_RATES[(b1 >> 3) & 0x03];
+    return { sampleRate: rates?.[(b2 >> 2) & 0x03] ?? null, channels: b3 >> 6 === 3 ? 1 : 2 };
+  }
+  return {};
+};
+
+// The browser reads just enough of the file for its duration
+const mediaDuration = (file: File) =>
+  new Promise<number | null>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      audio.removeAttribute('src');
+      resolve(duration);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+
+const decodeMetadata = async (file: File): Promise<Partial<AudioMetadata>> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    return { duration: buffer.duration, sampleRate: buffer.sampleRate, channels: buffer.numberOfChannels };
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Duration, sample rate and channel count of a recording. Header values are
+ * preferred; Web Audio fills the gaps for files small enough to decode.
+ */
+export const readAudioMetadata = async (file: File): Promise<AudioMetadata> => {
+  const header = parseAudioHeader(await readHeader(file, 64 * 1024), file.size);
+  let decoded: Partial<AudioMetadata> = {};
+  const incomplete = header.duration == null || header.sampleRate == null || header.channels == null;
+  if (incomplete && file.size <= DECODE_LIMIT_BYTES) {
+    // Decoding resamples to the context's rate, so a header rate is kept when there is one
+    decoded = await decodeMetadata(file).catch(() => ({}));
+  }
+  return {
+    duration: header.duration ?? decoded.duration ?? (await mediaDuration(file)),
+    sampleRate: header.sampleRate ?? decoded.sampleRate ?? null,
+    channels: header.channels ?? decoded.channels ?? null,
+  };
+};
+
+// Deposition testimony runs at roughly 120-200 words a minute
+const MIN_WORDS_PER_MINUTE = 60;
+const MAX_WORDS_PER_MINUTE = 280;
+
+/**
+ * A warning when a transcript has far too many or too few words for the
+ * recording's length, which usually means the wrong pair of files.
+ */
+export const checkLengthMismatch = (transcriptText: string, durationSeconds: number | null) => {
+  const transcriptWords = transcriptText.match(/[\p{L}\p{N}']+/gu)?.length ?? 0;
+  if (!durationSeconds || durationSeconds < 30 || transcriptWords === 0) return null;
+  const perMinute = transcriptWords / (durationSeconds / 60);
+  if (perMinute < MIN_WORDS_PER_MINUTE) {
+    return `The transcript has about ${Math.round(perMinute)} words per minute of audio. The recording may be longer than the transcript covers, or belong to another proceeding.`;
+  }
+  if (perMinute > MAX_WORDS_PER_MINUTE) {
+    return `The transcript has about ${Math.round(perMinute)} words per minute of audio. The recording may be incomplete, or belong to another proceeding.`;
+  }
+  return null;
+};
@@ -0,0 +1,97 @@
+import { formatsOf } from '@/lib/file-validation';
+
+export const TRANSCRIPT_EXTENSIONS = formatsOf('transcript').map(f => f.extension);
+export const AUDIO_EXTENSIONS = formatsOf('audio').map(f => f.extension);
+
+export interface BatchPair {
+  key: string;
+  transcriptFile: File;
+  audioFile: File;
+}
+
+export interface PairingResult {
+  pairs: BatchPair[];
+  // Files with no counterpart, or of a type we don't analyze
+  unpaired: File[];
+}
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+// Words reporters commonly append to tell the two halves of a pair apart. The
+// separator is required, so names like "Retrans" keep their endings.
+const ROLE_SUFFIX = /[\s._-]+(audio|recording|rec|transcript|trans|final|certified)$/;
+
+/**
+ * Normalize a file name for pairing: "Smith Depo 2024-03-01 (Audio).wav" and
+ * "smith_depo_2024-03-01.rtf" both become "smithdepo20240301".
+ */
+export const pairingKey = (name: string) => {
+  let base = name.slice(0, name.length - extensionOf(name).length).toLowerCase();
+  base = base.replace(/[()[\]]/g, ' ').trim();
+  let previous;
+  do {
+    previous = base;
+    base = base.replace(ROLE_SUFFIX, '');
+  } while (base !== previous);
+  return base.replace(/[^a-z0-9]/g, '');
+};
+
+/** Pair transcripts with recordings by normalized file name. */
+export const pairFiles = (files: File[]): PairingResult => {
+  const transcripts = new Map<string, File>();
+  const audio = new Map<string, File>();
+  const unpaired: File[] = [];
+
+  for (const file of files) {
+    const ext = extensionOf(file.name);
+    const target = TRANSCRIPT_EXTENSIONS.includes(ext) ? transcripts : AUDIO_EXTENSIONS.includes(ext) ? audio : null;
+    const key = pairingKey(file.name);
+    if (!target || target.has(key)) {
+      unpaired.push(file);
+    } else {
+      target.set(key, file);
+    }
+  }
+
+  const pairs: BatchPair[] = [];
+  for (const [key, transcriptFile] of transcripts) {
+    const audioFile = audio.get(key);
+    if (audioFile) {
+      pairs.push({ key, transcriptFile, audioFile });
+      audio.delete(key);
+    } else {
+      unpaired.push(transcriptFile);
+    }
+  }
+  unpaired.push(...audio.values());
+
+  pairs.sort((a, b) => a.transcriptFile.name.localeCompare(b.transcriptFile.name));
+  return { pairs, unpaired };
+};
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight. Failures are
+ * left to the worker to record; the queue keeps going.
+ */
+export const runQueue = async <T,>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (err) {
+        console.error('Batch item failed', err);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+};
@@ -0,0 +1,145 @@
+import {
+  ApiError,
+  completeUploadSession,
+  createUploadSession,
+  fetchUploadSession,
+  uploadChunk,
+} from '@/lib/api-client';
+
+export interface UploadSession {
+  id: string;
+  filename: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  // Indexes of the chunks already written on the server
+  receivedChunks: number[];
+  status: 'uploading' | 'complete';
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One file's upload as its progress bar shows it. */
+export interface FileUploadProgress {
+  status: 'uploading' | 'complete' | 'failed';
+  // Share of the file's bytes the server has, 0..1
+  fraction: number;
+  error?: string;
+}
+
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+const PARALLEL_CHUNKS = 3;
+const MAX_ATTEMPTS = 5;
+// Doubled after each failed attempt: 1s, 2s, 4s, 8s
+const RETRY_DELAY_MS = 1000;
+
+const SESSIONS_KEY = 'case-scribe:uploads';
+const MAX_REMEMBERED_SESSIONS = 20;
+
+// A file picked again after a reload has a new File object but the same name, size and date
+const fingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const loadSessions = (): [string, string][] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSIONS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Most recent last, so the oldest sessions are forgotten first
+const rememberSession = (file: File, uploadId: string) => {
+  const key = fingerprint(file);
+  const sessions = loadSessions().filter(([k]) => k !== key);
+  sessions.push([key, uploadId]);
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions.slice(-MAX_REMEMBERED_SESSIONS)));
+};
+
+// Network failures and server-side errors are worth another try; a rejected request is not
+const isRetryable = (err: unknown) =>
+  !(err instanceof ApiError) || err.status >= 500 || err.status === 408 || err.status === 429;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withRetry = async <T,>(attempt: () => Promise<T>): Promise<T> => {
+  for (let i = 1; ; i++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (i >= MAX_ATTEMPTS || !isRetryable(err)) throw err;
+      await sleep(RETRY_DELAY_MS * 2 ** (i - 1));
+    }
+  }
+};
+
+// The session a previous attempt opened for this file, if the server still has it
+const resumeSession = async (file: File) => {
+  const uploadId = loadSessions().find(([key]) => key === fingerprint(file))?.[1];
+  if (!uploadId) return null;
+  try {
+    const session = await withRetry(() => fetchUploadSession(uploadId));
+    return session.size === file.size ? session : null;
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return null;
+    throw err;
+  }
+};
+
+const chunkLength = (session: UploadSession, index: number) =>
+  Math.min(session.chunkSize, session.size - index * session.chunkSize);
+
+/**
+ * Upload a file in chunks and return its upload id. Failed chunks are retried
+ * with backoff; a later call for the same file sends only the chunks the
+ * server is still missing.
+ */
+export const uploadFile = async (file: File, onProgress?: (progress: FileUploadProgress) => void) => {
+  let uploadedBytes = 0;
+  const report = (status: FileUploadProgress['status'], error?: string) =>
+    onProgress?.({ status, fraction: file.size ? uploadedBytes / file.size : 1, error });
+
+  try {
+    let session = await resumeSession(file);
+    if (!session) {
+      session = await withRetry(() => createUploadSession(file, CHUNK_SIZE));
+      rememberSession(file, session.id);
+    }
+    const { id, chunkSize } = session;
+
+    if (session.status !== 'complete') {
+      const received = new Set(session.receivedChunks);
+      const pending: number[] = [];
+      for (let i = 0; i < session.totalChunks; i++) {
+        if (received.has(i)) uploadedBytes += chunkLength(session, i);
+        else pending.push(i);
+      }
+      report('uploading');
+
+      let failed = false;
+      const worker = async () => {
+        while (pending.length && !failed) {
+          const index = pending.shift();
+          const chunk = file.slice(index * chunkSize, index * chunkSize + chunkSize);
+          try {
+            await withRetry(() => uploadChunk(id, index, chunk));
+          } catch (err) {
+            failed = true;
+            throw err;
+          }
+          uploadedBytes += chunk.size;
+          report('uploading');
+        }
+      };
+      await Promise.all(Array.from({ length: PARALLEL_CHUNKS }, worker));
+      await withRetry(() => completeUploadSession(id));
+    }
+
+    uploadedBytes = file.size;
+    report('complete');
+    return id;
+  } catch (err) {
+    report('failed', err instanceof Error ? err.message : String(err));
+    throw err;
+  }
+};
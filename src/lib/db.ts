@@ -0,0 +1,74 @@
+// One IndexedDB database for everything the app keeps in the browser
+const DB_NAME = 'case-scribe';
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const DICTIONARIES_STORE = 'dictionaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(DICTIONARIES_STORE)) {
+          db.createObjectStore(DICTIONARIES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runInStore = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+    // A write only counts once its transaction has committed
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
+
+/**
+ * Read one record and write back `update`'s result in a single transaction, so
+ * two updates close together can't both start from the old record.
+ */
+export const updateInStore = async <T,>(storeName: string, key: IDBValidKey, update: (existing: T | undefined) => T) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    let updated: T;
+    const request = store.get(key);
+    request.onsuccess = () => {
+      try {
+        updated = update(request.result);
+      } catch (err) {
+        reject(err);
+        transaction.abort();
+        return;
+      }
+      store.put(updated);
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = (event) => reject((event.target as IDBRequest).error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
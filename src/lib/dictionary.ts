@@ -0,0 +1,175 @@
+import { DICTIONARIES_STORE, runInStore } from '@/lib/db';
+
+export type TermCategory = 'legal' | 'party' | 'attorney' | 'place' | 'exhibit' | 'other';
+export type DictionaryScope = 'global' | 'case';
+
+export const TERM_CATEGORIES: { value: TermCategory; label: string }[] = [
+  { value: 'legal', label: 'Legal term' },
+  { value: 'party', label: 'Party' },
+  { value: 'attorney', label: 'Attorney' },
+  { value: 'place', label: 'Place' },
+  { value: 'exhibit', label: 'Exhibit' },
+  { value: 'other', label: 'Other' },
+];
+
+export interface DictionaryTerm {
+  // Canonical spelling, e.g. "voir dire" or "Okonkwo"
+  term: string;
+  category: TermCategory;
+  // Known mis-hearings or misspellings that should be corrected to `term`
+  variants: string[];
+}
+
+export interface Dictionary {
+  id: string;
+  name: string;
+  // Global lists apply to every matter; case lists hold one matter's proper nouns
+  scope: DictionaryScope;
+  // Active dictionaries are sent with every analysis
+  active: boolean;
+  terms: DictionaryTerm[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const run = <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runInStore(DICTIONARIES_STORE, mode, fn);
+
+export const createDictionary = (name: string, scope: DictionaryScope, terms: DictionaryTerm[] = []): Dictionary => {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), name, scope, active: true, terms, createdAt: now, updatedAt: now };
+};
+
+export const listDictionaries = async () => {
+  const dictionaries = await run<Dictionary[]>('readonly', store => store.getAll());
+  // Global lists first, then by name
+  return dictionaries.sort((a, b) =>
+    (a.scope === b.scope ? 0 : a.scope === 'global' ? -1 : 1) || a.name.localeCompare(b.name));
+};
+
+export const saveDictionary = async (dictionary: Dictionary) => {
+  const saved = { ...dictionary, updatedAt: new Date().toISOString() };
+  await run('readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteDictionary = (id: string) =>
+  run('readwrite', store => store.delete(id));
+
+/** Terms from every active dictionary, merged by case-insensitive spelling. */
+export const getActiveTerms = async () => {
+  const merged = new Map<string, DictionaryTerm>();
+  for (const dictionary of await listDictionaries()) {
+    if (!dictionary.active) continue;
+    for (const entry of dictionary.terms) {
+      const key = entry.term.trim().toLowerCase();
+      if (!key) continue;
+      const existing = merged.get(key);
+      merged.set(key, existing
+        ? { ...existing, variants: Array.from(new Set([...existing.variants, ...entry.variants])) }
+        : entry);
+    }
+  }
+  return Array.from(merged.values());
+};
+
+const isCategory = (value: string): value is TermCategory =>
+  TERM_CATEGORIES.some(c => c.value === value);
+
+const normalizeTerm = (raw: { term?: unknown; category?: unknown; variants?: unknown }): DictionaryTerm | null => {
+  const term = typeof raw.term === 'string' ? raw.term.trim() : '';
+  if (!term) return null;
+  const category = typeof raw.category === 'string' && isCategory(raw.category.trim().toLowerCase())
+    ? raw.category.trim().toLowerCase() as TermCategory
+    : 'legal';
+  const variants = Array.isArray(raw.variants)
+    ? raw.variants
+    : typeof raw.variants === 'string' ? raw.variants.split('|') : [];
+  return {
+    term,
+    category,
+    variants: variants.map(v => String(v).trim()).filter(Boolean),
+  };
+};
+
+// CSV columns: term,category,variants (variants separated by "|")
+const CSV_HEADER = ['term', 'category', 'variants'];
+
+const csvEscape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export const dictionaryToJson = (dictionary: Dictionary) =>
+  JSON.stringify({ name: dictionary.name, scope: dictionary.scope, terms: dictionary.terms }, null, 2);
+
+export const dictionaryToCsv = (dictionary: Dictionary) =>
+  [CSV_HEADER, ...dictionary.terms.map(t => [t.term, t.category, t.variants.join('|')])]
+    .map(row => row.map(csvEscape).join(','))
+    .join('\n') + '\n';
+
+export interface ImportedDictionary {
+  name?: string;
+  scope?: DictionaryScope;
+  terms: DictionaryTerm[];
+}
+
+/**
+ * Read a dictionary exported as JSON or CSV. JSON may be a full export or a
+ * bare list of terms; CSV may omit the header row.
+ */
+export const parseDictionaryFile = (text: string, fileName: string): ImportedDictionary => {
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    const data = JSON.parse(text);
+    const rawTerms = Array.isArray(data) ? data : data?.terms;
+    if (!Array.isArray(rawTerms)) throw new Error('Expected a list of terms');
+    return {
+      name: typeof data?.name === 'string' ? data.name : undefined,
+      scope: data?.scope === 'case' || data?.scope === 'global' ? data.scope : undefined,
+      terms: rawTerms.map(t => normalizeTerm(typeof t === 'string' ? { term: t } : t)).filter(Boolean),
+    };
+  }
+
+  const rows = parseCsvRows(text);
+  const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === 'term';
+  return {
+    terms: (hasHeader ? rows.slice(1) : rows)
+      .map(([term, category, variants]) => normalizeTerm({ term, category, variants }))
+      .filter(Boolean),
+  };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getMatchingBlocks, getOpcodes, quickRatio, similarityRatio } from '@/lib/diff';
+import fixtures from './__fixtures__/difflib.json';
+
+// Expected values come from Python's difflib.SequenceMatcher, written by
+// __fixtures__/make_difflib_fixtures.py; the in-browser mode relies on matching it
+describe('diff parity with difflib.SequenceMatcher', () => {
+  for (const fixture of fixtures) {
+    it(fixture.name, () => {
+      const opcodes = getOpcodes(fixture.a, fixture.b).map(op => [op.tag, op.i1, op.i2, op.j1, op.j2]);
+      expect(opcodes).toEqual(fixture.opcodes);
+
+      const total = fixture.a.length + fixture.b.length;
+      const matches = getMatchingBlocks(fixture.a, fixture.b).reduce((sum, [, , size]) => sum + size, 0);
+      expect(total ? (2 * matches) / total : 1).toBeCloseTo(fixture.ratio, 12);
+    });
+  }
+
+  it('similarityRatio and quickRatio match on single words', () => {
+    for (const fixture of fixtures.filter(f => f.name.startsWith('characters'))) {
+      const [a, b] = [fixture.a.join(''), fixture.b.join('')];
+      expect(similarityRatio(a, b)).toBeCloseTo(fixture.ratio, 12);
+      expect(quickRatio(a, b)).toBeCloseTo(fixture.quickRatio, 12);
+    }
+  });
+});
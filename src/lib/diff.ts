@@ -0,0 +1,138 @@
+/**
+ * A port of Python's difflib.SequenceMatcher (matching blocks and opcodes),
+ * so comparisons made in the browser line up with the alignment service's.
+ * Elements are compared with ===; no isjunk function, autojunk on.
+ */
+
+export type OpcodeTag = 'equal' | 'replace' | 'delete' | 'insert';
+
+export interface Opcode {
+  tag: OpcodeTag;
+  // a[i1:i2] becomes b[j1:j2]
+  i1: number;
+  i2: number;
+  j1: number;
+  j2: number;
+}
+
+type Block = [number, number, number];
+
+// Indices of each element of b; elements in more than 1% of a long b are dropped, as in difflib
+const indexB = <T,>(b: T[]) => {
+  const b2j = new Map<T, number[]>();
+  b.forEach((elt, j) => {
+    const indices = b2j.get(elt);
+    if (indices) indices.push(j);
+    else b2j.set(elt, [j]);
+  });
+  if (b.length >= 200) {
+    const limit = Math.floor(b.length / 100) + 1;
+    for (const [elt, indices] of b2j) {
+      if (indices.length > limit) b2j.delete(elt);
+    }
+  }
+  return b2j;
+};
+
+const findLongestMatch = <T,>(
+  a: T[], b: T[], b2j: Map<T, number[]>,
+  alo: number, ahi: number, blo: number, bhi: number
+): Block => {
+  let besti = alo;
+  let bestj = blo;
+  let bestsize = 0;
+  let j2len = new Map<number, number>();
+  for (let i = alo; i < ahi; i++) {
+    const next = new Map<number, number>();
+    for (const j of b2j.get(a[i]) ?? []) {
+      if (j < blo) continue;
+      if (j >= bhi) break;
+      const k = (j2len.get(j - 1) ?? 0) + 1;
+      next.set(j, k);
+      if (k > bestsize) {
+        besti = i - k + 1;
+        bestj = j - k + 1;
+        bestsize = k;
+      }
+    }
+    j2len = next;
+  }
+  // Popular elements were left out of the index; grow the match over them
+  while (besti > alo && bestj > blo && a[besti - 1] === b[bestj - 1]) {
+    besti--;
+    bestj--;
+    bestsize++;
+  }
+  while (besti + bestsize < ahi && bestj + bestsize < bhi && a[besti + bestsize] === b[bestj + bestsize]) {
+    bestsize++;
+  }
+  return [besti, bestj, bestsize];
+};
+
+export const getMatchingBlocks = <T,>(a: T[], b: T[]): Block[] => {
+  const b2j = indexB(b);
+  const queue: [number, number, number, number][] = [[0, a.length, 0, b.length]];
+  const blocks: Block[] = [];
+  while (queue.length) {
+    const [alo, ahi, blo, bhi] = queue.pop();
+    const [i, j, k] = findLongestMatch(a, b, b2j, alo, ahi, blo, bhi);
+    if (k) {
+      blocks.push([i, j, k]);
+      if (alo < i && blo < j) queue.push([alo, i, blo, j]);
+      if (i + k < ahi && j + k < bhi) queue.push([i + k, ahi, j + k, bhi]);
+    }
+  }
+  blocks.sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+
+  // Collapse adjacent blocks
+  const merged: Block[] = [];
+  for (const block of blocks) {
+    const last = merged[merged.length - 1];
+    if (last && last[0] + last[2] === block[0] && last[1] + last[2] === block[1]) {
+      last[2] += block[2];
+    } else {
+      merged.push([...block]);
+    }
+  }
+  merged.push([a.length, b.length, 0]);
+  return merged;
+};
+
+export const getOpcodes = <T,>(a: T[], b: T[]): Opcode[] => {
+  const opcodes: Opcode[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj, size] of getMatchingBlocks(a, b)) {
+    const tag: OpcodeTag | null = i < ai && j < bj ? 'replace' : i < ai ? 'delete' : j < bj ? 'insert' : null;
+    if (tag) opcodes.push({ tag, i1: i, i2: ai, j1: j, j2: bj });
+    i = ai + size;
+    j = bj + size;
+    if (size) opcodes.push({ tag: 'equal', i1: ai, i2: i, j1: bj, j2: j });
+  }
+  return opcodes;
+};
+
+/** Similarity in [0, 1], as SequenceMatcher.ratio(). */
+export const similarityRatio = (a: string, b: string) => {
+  const total = a.length + b.length;
+  if (!total) return 1;
+  const matches = getMatchingBlocks([...a], [...b]).reduce((sum, [, , size]) => sum + size, 0);
+  return (2 * matches) / total;
+};
+
+/** Upper bound on similarityRatio from shared characters alone, as SequenceMatcher.quick_ratio(). */
+export const quickRatio = (a: string, b: string) => {
+  const total = [...a].length + [...b].length;
+  if (!total) return 1;
+  const available = new Map<string, number>();
+  for (const char of b) available.set(char, (available.get(char) ?? 0) + 1);
+  let matches = 0;
+  for (const char of a) {
+    const count = available.get(char) ?? 0;
+    if (count > 0) {
+      available.set(char, count - 1);
+      matches++;
+    }
+  }
+  return (2 * matches) / total;
+};
@@ -0,0 +1,19 @@
+import type { DownloadFile } from '@/types/analysis';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadBase64 = (b64: string, filename: string, mime: string) => {
+  const bytes = atob(b64);
+  const buf = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buf[i] = bytes.charCodeAt(i);
+  downloadBlob(new Blob([buf], { type: mime }), filename);
+};
+
+export const downloadFile = (file: DownloadFile) => downloadBase64(file.b64, file.name, file.mime);
@@ -0,0 +1,67 @@
+import type { AnalysisError, ErrorType } from '@/types/analysis';
+import { getDecision, getReplacement, type ReviewDecisions } from '@/lib/review';
+
+export interface ErrataEntry {
+  page: number;
+  line: number;
+  original: string;
+  corrected: string;
+  reason: string;
+}
+
+// An entry with the index of its error in AnalysisData.errors, which tells rows apart
+// when the same word is corrected twice on one line
+export interface ErrataRow extends ErrataEntry {
+  errorIndex: number;
+}
+
+export interface ErrataDetails {
+  caseCaption: string;
+  caseNumber: string;
+  witnessName: string;
+  depositionDate: string;
+  reporterName: string;
+}
+
+export const EMPTY_CASE_DETAILS: ErrataDetails = {
+  caseCaption: '',
+  caseNumber: '',
+  witnessName: '',
+  depositionDate: '',
+  reporterName: '',
+};
+
+export interface ErrataDocuments {
+  docx_base64: string;
+  pdf_base64: string;
+  filenames: { docx: string; pdf: string };
+}
+
+const DEFAULT_REASONS: Record<ErrorType, string> = {
+  audio_mismatch: 'Transcription does not match audio',
+  spelling: 'Spelling correction',
+  grammar: 'Grammatical correction',
+  legal_term: 'Terminology correction',
+};
+
+// Matches the aligner's fallback pagination for errors without a printed location
+const LINES_PER_PAGE = 25;
+
+/** One errata row per correction the reviewer accepted or hand-edited, in page:line order. */
+export const buildErrataEntries = (errors: AnalysisError[], decisions: ReviewDecisions): ErrataRow[] =>
+  errors
+    .flatMap((error, index) => {
+      const replacement = getReplacement(error, getDecision(decisions, index));
+      if (replacement === null) return [];
+      const page = error.location?.page ?? Math.floor((error.line - 1) / LINES_PER_PAGE) + 1;
+      const line = error.location?.line ?? ((error.line - 1) % LINES_PER_PAGE) + 1;
+      return [{
+        page,
+        line,
+        original: error.original,
+        corrected: replacement || '(delete)',
+        reason: DEFAULT_REASONS[error.type] ?? 'Correction',
+        errorIndex: index,
+      }];
+    })
+    .sort((a, b) => a.page - b.page || a.line - b.line);
@@ -0,0 +1,160 @@
+import type { AnalysisError, ErrorType } from '@/types/analysis';
+import { speakerOf } from '@/lib/speakers';
+
+export type ErrorSortKey = 'position' | 'confidence' | 'type';
+
+export const ERROR_TYPES: ErrorType[] = ['spelling', 'grammar', 'audio_mismatch', 'legal_term'];
+export const ERROR_SORT_KEYS: { key: ErrorSortKey; label: string }[] = [
+  { key: 'position', label: 'Position in transcript' },
+  { key: 'confidence', label: 'Confidence (highest first)' },
+  { key: 'type', label: 'Error type' },
+];
+
+export interface ErrorFilters {
+  // Empty means every type
+  types: ErrorType[];
+  // Percent, 0..100 inclusive
+  minConfidence: number;
+  maxConfidence: number;
+  speaker: string | null;
+  pageFrom: number | null;
+  pageTo: number | null;
+  query: string;
+  sort: ErrorSortKey;
+}
+
+export const DEFAULT_ERROR_FILTERS: ErrorFilters = {
+  types: [],
+  minConfidence: 0,
+  maxConfidence: 100,
+  speaker: null,
+  pageFrom: null,
+  pageTo: null,
+  query: '',
+  sort: 'position',
+};
+
+// Query parameter names, kept short so shared links stay readable
+const PARAMS = {
+  types: 'type',
+  confidence: 'conf',
+  speaker: 'speaker',
+  pages: 'pages',
+  query: 'q',
+  sort: 'sort',
+};
+
+const LINES_PER_PAGE = 25;
+
+const parsePage = (value: string | undefined) => {
+  const page = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(page) && page > 0 ? page : null;
+};
+
+const clampPercent = (value: number, fallback: number) =>
+  Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 0), 100) : fallback;
+
+/** Read filters from the URL. Unknown or malformed values fall back to the defaults. */
+export const filtersFromParams = (params: URLSearchParams): ErrorFilters => {
+  const types = (params.get(PARAMS.types) ?? '')
+    .split(',')
+    .filter((t): t is ErrorType => (ERROR_TYPES as string[]).includes(t));
+
+  const [minRaw, maxRaw] = (params.get(PARAMS.confidence) ?? '').split('-');
+  const minConfidence = clampPercent(Number.parseFloat(minRaw), DEFAULT_ERROR_FILTERS.minConfidence);
+  const maxConfidence = clampPercent(Number.parseFloat(maxRaw), DEFAULT_ERROR_FILTERS.maxConfidence);
+
+  // "12" is a single page, "12-" and "-30" are open-ended
+  const pages = params.get(PARAMS.pages) ?? '';
+  const [fromRaw, toRaw] = pages.includes('-') ? pages.split('-') : [pages, pages];
+
+  const sort = params.get(PARAMS.sort);
+  return {
+    types,
+    minConfidence: Math.min(minConfidence, maxConfidence),
+    maxConfidence: Math.max(minConfidence, maxConfidence),
+    speaker: params.get(PARAMS.speaker) || null,
+    pageFrom: parsePage(fromRaw),
+    pageTo: parsePage(toRaw),
+    query: params.get(PARAMS.query) ?? '',
+    sort: ERROR_SORT_KEYS.some(s => s.key === sort) ? (sort as ErrorSortKey) : DEFAULT_ERROR_FILTERS.sort,
+  };
+};
+
+/**
+ * Write filters into a copy of the URL's params. Defaults are left out, and
+ * params that aren't filters (such as the open project) are kept.
+ */
+export const filtersToParams = (filters: ErrorFilters, current: URLSearchParams) => {
+  const params = new URLSearchParams(current);
+  const put = (name: string, value: string) => {
+    if (value) params.set(name, value);
+    else params.delete(name);
+  };
+
+  put(PARAMS.types, filters.types.join(','));
+  put(
+    PARAMS.confidence,
+    filters.minConfidence > 0 || filters.maxConfidence < 100 ? `${filters.minConfidence}-${filters.maxConfidence}` : ''
+  );
+  put(PARAMS.speaker, filters.speaker ?? '');
+  put(
+    PARAMS.pages,
+    filters.pageFrom || filters.pageTo ? `${filters.pageFrom ?? ''}-${filters.pageTo ?? ''}` : ''
+  );
+  put(PARAMS.query, filters.query.trim() ? filters.query : '');
+  put(PARAMS.sort, filters.sort === DEFAULT_ERROR_FILTERS.sort ? '' : filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: ErrorFilters) =>
+  filters.types.length > 0 ||
+  filters.minConfidence > 0 ||
+  filters.maxConfidence < 100 ||
+  filters.speaker !== null ||
+  filters.pageFrom !== null ||
+  filters.pageTo !== null ||
+  filters.query.trim() !== '';
+
+// Errors from older analyses may lack a printed location; assume 25-line pages
+const pageOf = (error: AnalysisError) =>
+  error.location?.page ?? Math.floor((error.line - 1) / LINES_PER_PAGE) + 1;
+
+const positionOf = (error: AnalysisError) => error.location?.offset ?? Number.MAX_SAFE_INTEGER;
+
+const comparators: Record<ErrorSortKey, (a: AnalysisError, b: AnalysisError) => number> = {
+  position: (a, b) => a.line - b.line || a.column - b.column || positionOf(a) - positionOf(b),
+  confidence: (a, b) => b.confidence - a.confidence,
+  type: (a, b) => ERROR_TYPES.indexOf(a.type) - ERROR_TYPES.indexOf(b.type),
+};
+
+/**
+ * The errors that pass every filter, in the chosen order. Each keeps its index
+ * in the full list so callers can refer back to it.
+ */
+export const applyErrorFilters = (errors: AnalysisError[], filters: ErrorFilters) => {
+  const query = filters.query.trim().toLowerCase();
+  const compare = comparators[filters.sort];
+
+  return errors
+    .map((error, index) => ({ error, index }))
+    .filter(({ error }) => {
+      if (filters.types.length && !filters.types.includes(error.type)) return false;
+      const percent = Math.round(error.confidence * 100);
+      if (percent < filters.minConfidence || percent > filters.maxConfidence) return false;
+      if (filters.speaker && speakerOf(error) !== filters.speaker) return false;
+      const page = pageOf(error);
+      if (filters.pageFrom && page < filters.pageFrom) return false;
+      if (filters.pageTo && page > filters.pageTo) return false;
+      if (
+        query &&
+        !error.original.toLowerCase().includes(query) &&
+        !error.suggested.toLowerCase().includes(query)
+      ) {
+        return false;
+      }
+      return true;
+    })
+    // Ties keep transcript order
+    .sort((a, b) => compare(a.error, b.error) || a.index - b.index);
+};
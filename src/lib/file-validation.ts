@@ -0,0 +1,162 @@
+export type FileKind = 'transcript' | 'audio';
+
+interface FileFormat {
+  extension: string;
+  label: string;
+  kind: FileKind;
+  // MIME types browsers report for the format; the first is the canonical one
+  mimeTypes: string[];
+  // Whether the first bytes of a file are this format
+  matches: (bytes: Uint8Array) => boolean;
+  // A closer look at a file whose first bytes matched, for containers other formats share
+  inspect?: (file: File) => Promise<boolean>;
+}
+
+const ascii = (bytes: Uint8Array, offset: number, text: string) =>
+  text.split('').every((ch, i) => bytes[offset + i] === ch.charCodeAt(0));
+
+// MPEG audio frame sync: 11 set bits. Layer bits 00 are ADTS (AAC), anything else is MP3.
+const isFrameSync = (bytes: Uint8Array) => bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0;
+const isAdts = (bytes: Uint8Array) => isFrameSync(bytes) && (bytes[1] & 0x06) === 0;
+
+// Plain text has no NUL bytes; UTF-16 transcripts are rare enough to reject
+const isText = (bytes: Uint8Array) => !bytes.includes(0);
+
+const readRange = async (file: File, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+// The end of central directory record: 22 bytes plus a comment of up to 64 KB
+const ZIP_END_MAX = 22 + 0xffff;
+
+// .xlsx, .pptx and plain archives are ZIPs too; a Word document is the one with
+// parts under word/. Entry names are listed in the central directory, which the
+// record at the end of the archive points to.
+const hasWordParts = async (file: File) => {
+  const tailStart = Math.max(0, file.size - ZIP_END_MAX);
+  const tail = await readRange(file, tailStart, file.size);
+  const view = new DataView(tail.buffer);
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) !== 0x06054b50) continue;
+    const size = view.getUint32(i + 12, true);
+    const offset = view.getUint32(i + 16, true);
+    const directory = await readRange(file, offset, offset + size);
+    return new TextDecoder('latin1').decode(directory).includes('word/');
+  }
+  return false;
+};
+
+export const FILE_FORMATS: FileFormat[] = [
+  {
+    extension: '.rtf',
+    label: 'RTF',
+    kind: 'transcript',
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    matches: bytes => ascii(bytes, 0, '{\\rtf'),
+  },
+  {
+    extension: '.docx',
+    label: 'Word (.docx)',
+    kind: 'transcript',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    matches: bytes => ascii(bytes, 0, 'PK\x03\x04'),
+    inspect: hasWordParts,
+  },
+  {
+    extension: '.doc',
+    label: 'Word (.doc)',
+    kind: 'transcript',
+    mimeTypes: ['application/msword'],
+    matches: bytes => [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1].every((b, i) => bytes[i] === b),
+  },
+  {
+    extension: '.txt',
+    label: 'plain text',
+    kind: 'transcript',
+    mimeTypes: ['text/plain'],
+    matches: isText,
+  },
+  {
+    extension: '.wav',
+    label: 'WAV',
+    kind: 'audio',
+    mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'],
+    matches: bytes => ascii(bytes, 0, 'RIFF') && ascii(bytes, 8, 'WAVE'),
+  },
+  {
+    extension: '.mp3',
+    label: 'MP3',
+    kind: 'audio',
+    mimeTypes: ['audio/mpeg', 'audio/mp3'],
+    matches: bytes => ascii(bytes, 0, 'ID3') || (isFrameSync(bytes) && !isAdts(bytes)),
+  },
+  {
+    extension: '.m4a',
+    label: 'M4A',
+    kind: 'audio',
+    mimeTypes: ['audio/mp4', 'audio/x-m4a', 'audio/m4a'],
+    matches: bytes => ascii(bytes, 4, 'ftyp'),
+  },
+  {
+    extension: '.aac',
+    label: 'AAC',
+    kind: 'audio',
+    mimeTypes: ['audio/aac', 'audio/x-aac', 'audio/aacp'],
+    matches: bytes => isAdts(bytes) || ascii(bytes, 0, 'ADIF'),
+  },
+];
+
+export const formatsOf = (kind: FileKind) => FILE_FORMATS.filter(f => f.kind === kind);
+
+export const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+/** The `accept` map react-dropzone expects: each real MIME type with its extension. */
+export const dropzoneAccept = (kind: FileKind) => {
+  const accept: Record<string, string[]> = {};
+  for (const format of formatsOf(kind)) {
+    for (const mime of format.mimeTypes) accept[mime] = [...(accept[mime] ?? []), format.extension];
+  }
+  return accept;
+};
+
+// Enough for every signature above and a representative slice of a text file
+const SNIFF_BYTES = 4096;
+
+export const readHeader = async (file: File, bytes = SNIFF_BYTES) =>
+  new Uint8Array(await file.slice(0, bytes).arrayBuffer());
+
+/** The format a file's content looks like, checked in table order (text last, as RTF is text too). */
+export const sniffFormat = (bytes: Uint8Array) => FILE_FORMATS.find(f => f.matches(bytes)) ?? null;
+
+export interface FileCheck {
+  // Set when the file must not be used
+  error?: string;
+  // Set when the file is usable but something looks off
+  warning?: string;
+}
+
+/**
+ * Check a file's extension and content against the formats accepted for its
+ * kind. The content wins over the name: a mislabeled recording still decodes,
+ * but a renamed .xlsx is rejected. A .doc is only checked for the OLE2
+ * container, which legacy Excel and PowerPoint files share.
+ */
+export const validateFile = async (file: File, kind: FileKind): Promise<FileCheck> => {
+  const formats = formatsOf(kind);
+  const declared = formats.find(f => f.extension === extensionOf(file.name));
+  if (!declared) {
+    return { error: `${file.name} isn't a supported ${kind} file (${formats.map(f => f.extension).join(', ')})` };
+  }
+  if (file.size === 0) return { error: `${file.name} is empty` };
+
+  let sniffed = sniffFormat(await readHeader(file));
+  // A shared container that fails the closer look holds some other format
+  if (sniffed?.inspect && !(await sniffed.inspect(file))) sniffed = null;
+  if (sniffed === declared) return {};
+  if (sniffed?.kind === kind && sniffed.extension !== '.txt') {
+    return { warning: `${file.name} is named ${declared.label} but its content is ${sniffed.label}` };
+  }
+  return { error: `${file.name} doesn't contain ${declared.label} data` };
+};
@@ -0,0 +1,16 @@
+import type { AnalysisError } from '@/types/analysis';
+
+/** Format seconds as m:ss, or h:mm:ss for recordings over an hour. */
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/** Transcript citation in the form attorneys use on errata sheets: "p. 42:17". */
+export const formatCitation = (page: number, line: number) => `p. ${page}:${line}`;
+
+export const formatErrorCitation = (error: AnalysisError) =>
+  error.location ? formatCitation(error.location.page, error.location.line) : `Line ${error.line}`;
@@ -0,0 +1,48 @@
+import type { AnalysisError } from '@/types/analysis';
+import type { IndexedError } from '@/lib/transcript-rows';
+
+/**
+ * A stretch of a line and the errors covering all of it. Segments never
+ * overlap, so overlapping or nested errors split the line where any of them
+ * starts or ends. A segment with `start === end` marks text missing at that point.
+ */
+export interface HighlightSegment {
+  start: number;
+  end: number;
+  errors: IndexedError[];
+}
+
+// Insertions are reported as "(missing)" with no length in the transcript
+const errorLength = (error: AnalysisError) =>
+  error.location?.length ?? (error.original === '(missing)' ? 0 : error.original.length);
+
+/** The [start, end) character range an error covers in its line, clamped to the line. */
+export const errorRange = (error: AnalysisError, lineLength: number): [number, number] => {
+  const start = Math.min(Math.max(error.column - 1, 0), lineLength);
+  return [start, Math.min(start + errorLength(error), lineLength)];
+};
+
+/** Split a line into plain and highlighted segments covering it from start to end. */
+export const segmentLine = (line: string, errors: IndexedError[]): HighlightSegment[] => {
+  const ranges = errors.map(entry => ({ entry, range: errorRange(entry.error, line.length) }));
+  const boundaries = Array.from(new Set([0, line.length, ...ranges.flatMap(r => r.range)])).sort((a, b) => a - b);
+
+  const segments: HighlightSegment[] = [];
+  const insertionsAt = (offset: number) => {
+    const inserted = ranges.filter(({ range: [s, e] }) => s === e && s === offset).map(r => r.entry);
+    if (inserted.length) segments.push({ start: offset, end: offset, errors: inserted });
+  };
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    insertionsAt(start);
+    segments.push({
+      start,
+      end,
+      errors: ranges.filter(({ range: [s, e] }) => s < e && s <= start && e >= end).map(r => r.entry),
+    });
+  }
+  insertionsAt(line.length);
+  return segments;
+};
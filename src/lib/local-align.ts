@@ -0,0 +1,334 @@
+import type {
+  AccuracyReport,
+  AlignmentOp,
+  AnalysisError,
+  AnalysisSummary,
+  ErrorLocation,
+  LineMap,
+  LineSpeakers,
+  LineTiming,
+  PageAccuracy,
+  WordTiming,
+} from '@/types/analysis';
+import type { DictionaryTerm } from '@/lib/dictionary';
+import { getOpcodes, quickRatio, similarityRatio } from '@/lib/diff';
+
+// Browser-side counterpart of the alignment service's comparison step
+// (alignment_service/main.py). Keep the two in step: same tokens, same flags.
+
+const LINES_PER_PAGE = 25;
+// Python's Unicode \w, which JS's \w (ASCII only) doesn't match
+const TOKEN = /[\p{L}\p{N}_]+|[^\p{L}\p{N}_\s]/gu;
+const WORD = /[\p{L}\p{N}_]+(?:['.-][\p{L}\p{N}_]+)*/gu;
+
+interface TokenSpan {
+  token: string;
+  start: number;
+  end: number;
+}
+
+const tokenizeSpans = (text: string): TokenSpan[] =>
+  Array.from(text.matchAll(TOKEN), m => ({ token: m[0].toLowerCase(), start: m.index, end: m.index + m[0].length }));
+
+export interface Locator {
+  lineMap: LineMap;
+  lineIndex: (offset: number) => number;
+  locate: (offset: number, length: number, start?: number | null, end?: number | null) =>
+    Pick<AnalysisError, 'line' | 'column' | 'location'>;
+}
+
+/** Maps character offsets in the transcript text to line/column and printed page:line. */
+export const createLocator = (text: string, lineMap?: LineMap): Locator => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const map: LineMap = lineMap?.length === lineStarts.length
+    ? lineMap
+    : lineStarts.map((_, i) => [Math.floor(i / LINES_PER_PAGE) + 1, (i % LINES_PER_PAGE) + 1]);
+
+  const lineIndex = (offset: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  return {
+    lineMap: map,
+    lineIndex,
+    locate: (offset, length, start = null, end = null) => {
+      const idx = lineIndex(offset);
+      const [page, line] = map[idx];
+      const location: ErrorLocation = { page, line, offset, length, start, end };
+      return { line: idx + 1, column: offset - lineStarts[idx] + 1, location };
+    },
+  };
+};
+
+// Punctuation tokens are aligned but don't count towards WER
+const isWord = (token: string) => /^[\p{L}\p{N}_]/u.test(token);
+const countWords = (tokens: string[]) => tokens.filter(isWord).length;
+
+const wordRate = (errors: number, reference: number) => {
+  if (!reference) return { wer: null, accuracy: null };
+  const wer = errors / reference;
+  return { wer: Math.round(wer * 10000) / 10000, accuracy: Math.round(Math.max(0, 1 - wer) * 10000) / 10000 };
+};
+
+interface PageCounts {
+  reference: number;
+  correct: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+}
+
+/** Tallies word-level substitutions, deletions and insertions per printed page. */
+const createAccuracyCounter = (lineMap: LineMap) => {
+  const pages = new Map<number, PageCounts>();
+  for (const [page] of lineMap) {
+    if (!pages.has(page)) pages.set(page, { reference: 0, correct: 0, substitutions: 0, deletions: 0, insertions: 0 });
+  }
+
+  const add = (page: number, transcriptWords: number, audioWords: number, equal = false) => {
+    const counts = pages.get(page);
+    counts.reference += audioWords;
+    if (equal) {
+      counts.correct += audioWords;
+      return;
+    }
+    const substituted = Math.min(transcriptWords, audioWords);
+    counts.substitutions += substituted;
+    counts.deletions += audioWords - substituted;
+    counts.insertions += transcriptWords - substituted;
+  };
+
+  const report = (transcriptWords: number): AccuracyReport => {
+    const totals: PageCounts = { reference: 0, correct: 0, substitutions: 0, deletions: 0, insertions: 0 };
+    const pageReports: PageAccuracy[] = [];
+    pages.forEach((c, page) => {
+      for (const key of Object.keys(totals) as (keyof PageCounts)[]) totals[key] += c[key];
+      pageReports.push({
+        page,
+        referenceWords: c.reference,
+        substitutions: c.substitutions,
+        deletions: c.deletions,
+        insertions: c.insertions,
+        accuracy: wordRate(c.substitutions + c.deletions + c.insertions, c.reference).accuracy,
+      });
+    });
+    return {
+      referenceWords: totals.reference,
+      transcriptWords,
+      correctWords: totals.correct,
+      substitutions: totals.substitutions,
+      deletions: totals.deletions,
+      insertions: totals.insertions,
+      ...wordRate(totals.substitutions + totals.deletions + totals.insertions, totals.reference),
+      pages: pageReports,
+    };
+  };
+
+  return { add, report };
+};
+
+/**
+ * Diff transcript tokens against whisper words; mismatches become audio_mismatch
+ * errors and the same opcodes give the word accuracy report.
+ */
+export const alignWithAudio = (text: string, words: WordTiming[], locator: Locator) => {
+  const spans = tokenizeSpans(text);
+  const audioTokens: string[] = [];
+  const audioTimes: [number, number][] = [];
+  // Original-case tokens, and which of them start a word, rebuild the text for display
+  const audioDisplay: string[] = [];
+  const audioWordStarts: boolean[] = [];
+  for (const w of words) {
+    const lowered = Array.from(w.word.toLowerCase().matchAll(TOKEN), m => m[0]);
+    const original = Array.from(w.word.matchAll(TOKEN), m => m[0]);
+    lowered.forEach((token, k) => {
+      audioTokens.push(token);
+      audioTimes.push([w.start, w.end]);
+      audioDisplay.push(original.length === lowered.length ? original[k] : token);
+      audioWordStarts.push(k === 0);
+    });
+  }
+  // Tokens of one whisper word are glued back together; words are space-separated
+  const audioText = (j1: number, j2: number) =>
+    audioDisplay.slice(j1, j2).map((token, k) => (audioWordStarts[j1 + k] && k > 0 ? ' ' : '') + token).join('');
+
+  const spanTime = (j1: number, j2: number): [number | null, number | null] => {
+    if (!audioTimes.length) return [null, null];
+    if (j1 < j2) return [audioTimes[j1][0], audioTimes[j2 - 1][1]];
+    const k = Math.min(j1, audioTimes.length - 1);
+    return [audioTimes[k][0], audioTimes[k][0]];
+  };
+  const spanOf = (i1: number, i2: number): [number, number] => {
+    if (i1 < i2) return [spans[i1].start, spans[i2 - 1].end - spans[i1].start];
+    if (i1 < spans.length) return [spans[i1].start, 0];
+    return [text.length, 0];
+  };
+
+  const errors: AnalysisError[] = [];
+  const alignment: AlignmentOp[] = [];
+  const lineTimes = new Map<number, [number, number]>();
+  const counter = createAccuracyCounter(locator.lineMap);
+  const pageAt = (offset: number) => locator.lineMap[locator.lineIndex(offset)][0];
+  const transcriptTokens = spans.map(s => s.token);
+  for (const { tag, i1, i2, j1, j2 } of getOpcodes(transcriptTokens, audioTokens)) {
+    const [start, end] = spanTime(j1, j2);
+    const [offset, length] = spanOf(i1, i2);
+    alignment.push({ tag, offset, length, audioText: audioText(j1, j2), start, end });
+    if (tag === 'equal') {
+      for (let k = 0; k < i2 - i1; k++) {
+        // Equal runs can cross a page break, so they're counted token by token
+        if (isWord(spans[i1 + k].token)) counter.add(pageAt(spans[i1 + k].start), 1, 1, true);
+        const [tStart, tEnd] = audioTimes[j1 + k];
+        const line = locator.lineIndex(spans[i1 + k].start) + 1;
+        const span = lineTimes.get(line);
+        if (span) {
+          span[0] = Math.min(span[0], tStart);
+          span[1] = Math.max(span[1], tEnd);
+        } else {
+          lineTimes.set(line, [tStart, tEnd]);
+        }
+      }
+      continue;
+    }
+    counter.add(
+      pageAt(offset),
+      countWords(transcriptTokens.slice(i1, i2)),
+      countWords(audioTokens.slice(j1, j2))
+    );
+    const suggested = audioTokens.slice(j1, j2).join(' ').slice(0, 80);
+    errors.push({
+      ...locator.locate(offset, length, start, end),
+      original: tag === 'insert' ? '(missing)' : text.slice(offset, offset + length) || '(missing)',
+      suggested: suggested || '(remove)',
+      confidence: tag === 'insert' ? 0.7 : 0.75,
+      type: 'audio_mismatch',
+    });
+  }
+
+  const lineTimings: LineTiming[] = Array.from(lineTimes.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([line, [start, end]]) => ({ line, start, end }));
+  return { errors, lineTimings, alignment, accuracy: counter.report(countWords(transcriptTokens)) };
+};
+
+const SPELLING_FIXES: [string, string][] = [
+  ['councelor', 'counselor'],
+  ['inadmissable', 'inadmissible'],
+];
+
+export const spellingFlags = (text: string, locator: Locator): AnalysisError[] =>
+  SPELLING_FIXES.flatMap(([bad, good]) =>
+    Array.from(text.matchAll(new RegExp(bad, 'g')), m => ({
+      ...locator.locate(m.index, bad.length),
+      original: bad,
+      suggested: good,
+      confidence: 0.95,
+      type: 'spelling' as const,
+    }))
+  );
+
+export const applySpellingFixes = (text: string) =>
+  SPELLING_FIXES.reduce((result, [bad, good]) => result.split(bad).join(good), text);
+
+const PROPER_NOUN_CATEGORIES = new Set(['party', 'attorney', 'place', 'exhibit']);
+const NEAR_MISS_RATIO = 0.85;
+// Plurals and possessives of a term are the term used in a sentence, not a mishearing
+const INFLECTION_SUFFIXES = new Set(['s', 'es', "'s"]);
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Listed variants, near-misses and miscapitalized proper nouns become legal_term errors. */
+export const dictionaryFlags = (text: string, terms: DictionaryTerm[], locator: Locator): AnalysisError[] => {
+  const words = Array.from(text.matchAll(WORD), m => ({ start: m.index, end: m.index + m[0].length }));
+  const flagged = new Map<number, AnalysisError>();
+  const flag = (start: number, end: number, suggested: string, confidence: number) => {
+    if ((flagged.get(start)?.confidence ?? 0) >= confidence) return;
+    flagged.set(start, {
+      ...locator.locate(start, end - start),
+      original: text.slice(start, end),
+      suggested,
+      confidence,
+      type: 'legal_term',
+    });
+  };
+
+  for (const entry of terms) {
+    const term = entry.term.trim();
+    if (!term) continue;
+    const lowered = term.toLowerCase();
+    for (const raw of entry.variants) {
+      const variant = raw.trim();
+      if (!variant || variant.toLowerCase() === lowered) continue;
+      for (const m of text.matchAll(new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(variant)}(?![\\p{L}\\p{N}_])`, 'giu'))) {
+        flag(m.index, m.index + m[0].length, term, 0.9);
+      }
+    }
+
+    const size = term.split(/\s+/).length;
+    for (let i = 0; i + size <= words.length; i++) {
+      const start = words[i].start;
+      const end = words[i + size - 1].end;
+      // A length this far off can't reach the ratio, which is at most 2*shorter/(sum of lengths)
+      if (2 * Math.min(end - start, lowered.length) < NEAR_MISS_RATIO * (end - start + lowered.length)) continue;
+      const candidate = text.slice(start, end);
+      if (candidate === term) continue;
+      const folded = candidate.toLowerCase();
+      if (folded === lowered) {
+        if (PROPER_NOUN_CATEGORIES.has(entry.category)) flag(start, end, term, 0.8);
+        continue;
+      }
+      if (lowered.length < 5) continue;
+      if (folded.startsWith(lowered) && INFLECTION_SUFFIXES.has(folded.slice(lowered.length))) continue;
+      // quickRatio bounds the full ratio from above, so it only skips what couldn't match
+      if (quickRatio(folded, lowered) < NEAR_MISS_RATIO) continue;
+      if (similarityRatio(folded, lowered) >= NEAR_MISS_RATIO) flag(start, end, term, 0.7);
+    }
+  }
+  return Array.from(flagged.values());
+};
+
+export interface CompareOptions {
+  lineMap?: LineMap;
+  lineSpeakers?: LineSpeakers;
+  dictionary?: DictionaryTerm[];
+  // performance.now() when the run began, so processingTime covers transcription too
+  startedAt?: number;
+}
+
+/** Every check the alignment service runs, on a transcript and its word timings. */
+export const compareTranscript = (text: string, words: WordTiming[], options: CompareOptions = {}) => {
+  const startedAt = options.startedAt ?? performance.now();
+  const locator = createLocator(text, options.lineMap);
+  const { errors: audioErrors, lineTimings, alignment, accuracy } = alignWithAudio(text, words, locator);
+  const errors = [
+    ...audioErrors,
+    ...spellingFlags(text, locator),
+    ...(options.dictionary?.length ? dictionaryFlags(text, options.dictionary, locator) : []),
+  ].sort((a, b) => (a.location?.offset ?? 0) - (b.location?.offset ?? 0));
+
+  const speakers = options.lineSpeakers?.length === locator.lineMap.length ? options.lineSpeakers : null;
+  for (const error of errors) {
+    error.speaker = speakers && error.location ? speakers[locator.lineIndex(error.location.offset)] : null;
+  }
+
+  const byType: Record<string, number> = {};
+  for (const error of errors) byType[error.type] = (byType[error.type] ?? 0) + 1;
+  const summary: AnalysisSummary = {
+    totalErrors: errors.length,
+    byType,
+    confidenceScore: accuracy.accuracy ?? 0,
+    processingTime: Math.round((performance.now() - startedAt) / 10) / 100,
+    accuracy,
+  };
+
+  return { analysis: { errors, summary }, lineTimings, alignment, lineMap: locator.lineMap };
+};
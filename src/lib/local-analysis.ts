@@ -0,0 +1,173 @@
+import type { AnalyzeResponse, WordTiming } from '@/types/analysis';
+import type { AnalysisInput } from '@/lib/analysis-jobs';
+import type { WhisperRequest, WhisperResponse } from '@/workers/whisper.worker';
+import { applySpellingFixes, compareTranscript } from '@/lib/local-align';
+
+export type ProcessingMode = 'server' | 'local';
+export type LocalStage = 'model' | 'transcription' | 'alignment';
+
+export const LOCAL_STAGES: { stage: LocalStage; label: string }[] = [
+  { stage: 'model', label: 'Loading Whisper model' },
+  { stage: 'transcription', label: 'Transcribing on this device' },
+  { stage: 'alignment', label: 'Aligning transcript' },
+];
+
+// English-only checkpoints with word-level timestamps; larger is slower but more accurate
+export const WHISPER_MODELS = [
+  { id: 'Xenova/whisper-tiny.en', label: 'Tiny (~40 MB, fastest)' },
+  { id: 'Xenova/whisper-base.en', label: 'Base (~80 MB)' },
+  { id: 'Xenova/whisper-small.en', label: 'Small (~250 MB, most accurate)' },
+];
+export const DEFAULT_WHISPER_MODEL = 'Xenova/whisper-base.en';
+
+export interface ProcessingPreferences {
+  mode: ProcessingMode;
+  model: string;
+}
+
+const PREFERENCES_KEY = 'case-scribe:processing';
+
+// Remembered per browser, so a reporter who works offline isn't switched back to uploading
+export const loadProcessingPreferences = (): ProcessingPreferences => {
+  const fallback: ProcessingPreferences = { mode: 'server', model: DEFAULT_WHISPER_MODEL };
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? 'null');
+    return {
+      mode: stored?.mode === 'local' ? 'local' : 'server',
+      model: WHISPER_MODELS.some(m => m.id === stored?.model) ? stored.model : fallback.model,
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveProcessingPreferences = (preferences: ProcessingPreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+// Overall progress 0..100 allotted to each stage
+const STAGE_RANGES: Record<LocalStage, [number, number]> = {
+  model: [0, 20],
+  transcription: [20, 90],
+  alignment: [90, 100],
+};
+
+const SAMPLE_RATE = 16000;
+
+/** Decode an audio file to the 16 kHz mono samples Whisper expects. */
+export const decodeAudio = async (file: File) => {
+  const context = new AudioContext({ sampleRate: SAMPLE_RATE });
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    // Copied, since the samples are transferred to the worker
+    if (buffer.numberOfChannels === 1) return new Float32Array(buffer.getChannelData(0));
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+    }
+    return mono;
+  } finally {
+    context.close();
+  }
+};
+
+// One worker for the page, so a loaded model is reused across analyses
+let worker: Worker | null = null;
+let busy = false;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/whisper.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+/** Transcribe samples in the Whisper worker. Runs one recording at a time. */
+export const transcribeLocally = (
+  audio: Float32Array,
+  model: string,
+  onProgress?: (stage: 'model' | 'transcription', progress: number) => void
+) =>
+  new Promise<WordTiming[]>((resolve, reject) => {
+    if (busy) {
+      reject(new Error('Another recording is being transcribed on this device'));
+      return;
+    }
+    busy = true;
+    const w = getWorker();
+    const finish = () => {
+      busy = false;
+      w.removeEventListener('message', onMessage);
+      w.removeEventListener('error', onError);
+    };
+    const onMessage = (e: MessageEvent<WhisperResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.words);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    const onError = (e: ErrorEvent) => {
+      finish();
+      // A crashed worker can't be reused
+      w.terminate();
+      worker = null;
+      reject(new Error(e.message || 'The transcription worker failed to start'));
+    };
+    w.addEventListener('message', onMessage);
+    w.addEventListener('error', onError);
+    const request: WhisperRequest = { type: 'transcribe', audio, model };
+    w.postMessage(request, [audio.buffer]);
+  });
+
+/**
+ * Run the whole analysis in the browser: decode and transcribe the audio with
+ * Whisper in a worker, then compare it to the parsed transcript. Nothing is uploaded.
+ */
+export const runLocalAnalysis = async (
+  { audioFile, transcriptDoc, dictionary }: AnalysisInput,
+  model: string,
+  onUpdate?: (stage: LocalStage, progress: number) => void
+): Promise<AnalyzeResponse> => {
+  if (!transcriptDoc) {
+    throw new Error('Local processing needs a .txt or .rtf transcript that can be read in the browser');
+  }
+  const startedAt = performance.now();
+  const report = (stage: LocalStage, fraction: number) => {
+    const [from, to] = STAGE_RANGES[stage];
+    onUpdate?.(stage, from + (to - from) * Math.min(Math.max(fraction, 0), 1));
+  };
+
+  report('model', 0);
+  const audio = await decodeAudio(audioFile);
+  const words = await transcribeLocally(audio, model, report);
+
+  report('alignment', 0);
+  const text = transcriptDoc.text;
+  const { analysis, lineTimings, alignment, lineMap } = compareTranscript(text, words, {
+    lineMap: transcriptDoc.lines.map(l => [l.page, l.line]),
+    lineSpeakers: transcriptDoc.lines.map(l => l.speaker),
+    dictionary,
+    startedAt,
+  });
+  report('alignment', 1);
+
+  return {
+    analysis,
+    transcriptText: text,
+    words,
+    lineTimings,
+    alignment,
+    lineMap,
+    lineSpeakers: transcriptDoc.lines.map(l => l.speaker),
+    correctedTranscript: applySpellingFixes(text),
+    // DOCX is built by the alignment service; the reviewed .txt export still works
+    downloads: null,
+  };
+};
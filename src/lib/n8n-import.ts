@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import {
+  buildWorkflow,
+  webhookPathOf,
+  type N8NCredentials,
+  type N8NConnections,
+  type N8NNode,
+  type N8NWorkflowJson,
+  type WorkflowConfig,
+  type WorkflowRequirement,
+} from '@/lib/n8n-workflow';
+
+// Reads n8n workflow JSON (an export, or nodes copied off the canvas) back
+// into the builder form. The builder only knows the nodes it generates, so
+// anything else is reported rather than guessed at.
+
+// Every node type buildWorkflow can emit
+export const SUPPORTED_NODE_TYPES = [
+  'n8n-nodes-base.webhook',
+  'n8n-nodes-base.httpRequest',
+  'n8n-nodes-base.wait',
+  'n8n-nodes-base.switch',
+  'n8n-nodes-base.stopAndError',
+  'n8n-nodes-base.set',
+  'n8n-nodes-base.merge',
+  'n8n-nodes-base.if',
+  'n8n-nodes-base.convertToFile',
+  'n8n-nodes-base.emailSend',
+  'n8n-nodes-base.slack',
+  'n8n-nodes-base.readWriteFile',
+];
+
+const credentialsSchema = z.record(z.object({ id: z.string().optional(), name: z.string() })) as z.ZodType<N8NCredentials>;
+
+const nodeSchema = z.object({
+  // canvas copies of older n8n versions carry no ids
+  id: z.string().default(''),
+  name: z.string().min(1),
+  type: z.string().min(1),
+  typeVersion: z.number(),
+  position: z.tuple([z.number(), z.number()]),
+  parameters: z.record(z.unknown()).default({}),
+  credentials: credentialsSchema.optional(),
+  // without strictNullChecks zod infers the tuple as [number, number, ...unknown[]]
+}) as unknown as z.ZodType<N8NNode>;
+
+const connectionSchema = z.object({
+  node: z.string(),
+  type: z.literal('main'),
+  index: z.number().int(),
+});
+
+export const n8nWorkflowSchema = z.object({
+  name: z.string().default(''),
+  nodes: z.array(nodeSchema).min(1),
+  // n8n writes an output without targets as null
+  connections: z.record(z.object({
+    main: z.array(z.array(connectionSchema).nullable().transform(targets => targets ?? [])),
+  })).default({}),
+}) as z.ZodType<N8NWorkflowJson>;
+
+export interface ImportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  // The node the issue is about, highlighted in the preview
+  node?: string;
+}
+
+export interface ImportedRequirement extends WorkflowRequirement {
+  // 'missing': a node needs a credential it isn't bound to. Env vars can't be
+  // checked from the JSON, so they are 'unverified'.
+  status: 'set' | 'missing' | 'unverified';
+  nodes: string[];
+}
+
+export interface WorkflowImport {
+  workflow?: N8NWorkflowJson;
+  // The builder form for the workflow; only when there are no errors
+  config?: WorkflowConfig;
+  issues: ImportIssue[];
+  requirements: ImportedRequirement[];
+}
+
+// Credential each node type needs before n8n will run it, named as workflowRequirements names it
+const nodeCredential = (node: N8NNode): { type: string; label: string; description: string } | null => {
+  switch (node.type) {
+    case 'n8n-nodes-base.emailSend':
+      return { type: 'smtp', label: 'SMTP', description: 'Email server for notifications' };
+    case 'n8n-nodes-base.slack':
+      return { type: 'slackApi', label: 'Slack API', description: 'Bot token allowed to post in the channel' };
+    case 'n8n-nodes-base.httpRequest':
+      return node.parameters.authentication === 'headerAuth'
+        ? { type: 'httpHeaderAuth', label: 'Header Auth', description: 'Authorization header for the API request' }
+        : null;
+    default:
+      return null;
+  }
+};
+
+const ENV_REFERENCE = /\$env(?:\.([A-Za-z_]\w*)|\[\s*["']([A-Za-z_]\w*)["']\s*\])/g;
+
+export const importRequirements = (workflow: N8NWorkflowJson): ImportedRequirement[] => {
+  const requirements = new Map<string, ImportedRequirement>();
+  const need = (key: string, requirement: Omit<ImportedRequirement, 'nodes'>, node: string) => {
+    const existing = requirements.get(key);
+    if (!existing) {
+      requirements.set(key, { ...requirement, nodes: [node] });
+      return;
+    }
+    existing.nodes.push(node);
+    // one unbound node is enough for the credential to be missing
+    if (requirement.status === 'missing') {
+      existing.status = 'missing';
+      existing.description = requirement.description;
+    }
+  };
+
+  for (const node of workflow.nodes) {
+    const credential = nodeCredential(node);
+    if (credential) {
+      const bound = node.credentials?.[credential.type];
+      need(`credential:${credential.type}`, {
+        name: credential.label,
+        kind: 'credential',
+        description: bound ? `${credential.description} (uses "${bound.name}")` : `${credential.description}: pick one on ${node.name}`,
+        required: true,
+        status: bound ? 'set' : 'missing',
+      }, node.name);
+    }
+    for (const match of JSON.stringify(node.parameters).matchAll(ENV_REFERENCE)) {
+      const name = match[1] ?? match[2];
+      need(`env:${name}`, {
+        name,
+        kind: 'env',
+        description: 'Environment variable of the n8n instance',
+        required: true,
+        status: 'unverified',
+      }, node.name);
+    }
+  }
+  return [...requirements.values()].map(r => ({ ...r, nodes: [...new Set(r.nodes)] }));
+};
+
+// Connections, duplicate names and node types: what has to hold before the form can be recovered
+const structuralIssues = (workflow: N8NWorkflowJson): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  const names = new Set<string>();
+  for (const node of workflow.nodes) {
+    if (names.has(node.name)) {
+      issues.push({ severity: 'error', message: `Two nodes are named "${node.name}"`, node: node.name });
+    }
+    names.add(node.name);
+    if (!SUPPORTED_NODE_TYPES.includes(node.type)) {
+      issues.push({ severity: 'error', message: `${node.name}: ${node.type} is not a node type the builder supports`, node: node.name });
+    }
+  }
+  for (const [from, { main }] of Object.entries(workflow.connections)) {
+    if (!names.has(from)) issues.push({ severity: 'error', message: `Connection from unknown node "${from}"` });
+    for (const target of main.flat()) {
+      if (!names.has(target.node)) {
+        issues.push({ severity: 'error', message: `${from} connects to unknown node "${target.node}"`, node: from });
+      }
+    }
+  }
+  return issues;
+};
+
+const ofType = (workflow: N8NWorkflowJson, type: string) => workflow.nodes.filter(node => node.type === type);
+
+// Parameter values n8n evaluates as expressions start with '='
+const literal = (value: unknown) => (typeof value === 'string' ? value.replace(/^=/, '') : '');
+
+const ANALYZER_URLS: { analyzer: WorkflowConfig['analyzer']; pattern: RegExp }[] = [
+  { analyzer: 'jobs', pattern: /\/api\/jobs\/?$/ },
+  { analyzer: 'server', pattern: /\/api\/analyze\/?$/ },
+  { analyzer: 'openai', pattern: /api\.openai\.com/ },
+];
+
+/**
+ * The builder form that generates this workflow, starting from `base` for
+ * anything the JSON doesn't say (such as the webhook's host).
+ */
+const recoverConfig = (workflow: N8NWorkflowJson, base: WorkflowConfig, issues: ImportIssue[]): WorkflowConfig | undefined => {
+  const webhooks = ofType(workflow, 'n8n-nodes-base.webhook');
+  if (webhooks.length !== 1) {
+    issues.push({ severity: 'error', message: `Expected one Webhook trigger, found ${webhooks.length}` });
+    return undefined;
+  }
+
+  const requests = ofType(workflow, 'n8n-nodes-base.httpRequest');
+  let detected: { analyzer: WorkflowConfig['analyzer']; url: string } | undefined;
+  for (const { analyzer, pattern } of ANALYZER_URLS) {
+    const request = requests.find(node => pattern.test(literal(node.parameters.url)));
+    if (request) {
+      detected = { analyzer, url: literal(request.parameters.url) };
+      break;
+    }
+  }
+  if (!detected) {
+    issues.push({ severity: 'error', message: 'No analysis step: expected a request to /api/jobs, /api/analyze or api.openai.com' });
+    return undefined;
+  }
+
+  const path = literal(webhooks[0].parameters.path) || webhookPathOf('');
+  let webhookUrl = base.webhookUrl;
+  if (webhookPathOf(base.webhookUrl) !== path) {
+    const trimmed = base.webhookUrl.trim().replace(/[?#].*$/, '').replace(/\/+$/, '');
+    webhookUrl = trimmed.includes('/') ? `${trimmed.slice(0, trimmed.lastIndexOf('/'))}/${path}` : `/webhook/${path}`;
+    if (!trimmed.includes('/')) {
+      issues.push({ severity: 'warning', message: 'The JSON only has the webhook path: enter the full webhook URL before testing', node: webhooks[0].name });
+    }
+  }
+
+  const wait = ofType(workflow, 'n8n-nodes-base.wait')[0];
+  const condition = ofType(workflow, 'n8n-nodes-base.if')[0];
+  const minErrors = (condition?.parameters.conditions as { number?: { value2?: unknown }[] })?.number?.[0]?.value2;
+  const email = ofType(workflow, 'n8n-nodes-base.emailSend')[0];
+  const slack = ofType(workflow, 'n8n-nodes-base.slack')[0];
+  const slackChannel = (slack?.parameters.channelId as { value?: unknown })?.value ?? slack?.parameters.channel;
+  const fileDrop = ofType(workflow, 'n8n-nodes-base.readWriteFile')[0];
+
+  return {
+    name: workflow.name || base.name,
+    webhookUrl,
+    analyzer: detected.analyzer,
+    apiBase: detected.analyzer === 'openai' ? base.apiBase : detected.url.replace(/\/api\/(jobs|analyze)\/?$/, ''),
+    pollSeconds: Number(wait?.parameters.amount) || base.pollSeconds,
+    condition: condition
+      ? { enabled: true, minErrors: Number(minErrors) || 0 }
+      : { ...base.condition, enabled: false },
+    attachTranscript: email
+      ? Boolean((email.parameters.options as { attachments?: unknown })?.attachments)
+      : base.attachTranscript,
+    email: email ? { enabled: true, to: literal(email.parameters.toEmail) } : { ...base.email, enabled: false },
+    slack: slack ? { enabled: true, channel: literal(slackChannel) } : { ...base.slack, enabled: false },
+    fileDrop: fileDrop
+      ? { enabled: true, directory: literal(fileDrop.parameters.fileName).replace(/\/?\{\{[^}]*\}\}$/, '') || base.fileDrop.directory }
+      : { ...base.fileDrop, enabled: false },
+    credentials: Object.fromEntries(
+      workflow.nodes.filter(node => node.credentials).map(node => [node.name, node.credentials])
+    ),
+  };
+};
+
+// Objects with their keys sorted, so parameters compare equal whatever order n8n saved them in
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).sort(([a], [b]) => a.localeCompare(b)).map(([key, v]) => [key, canonical(v)])
+  );
+};
+
+// One node's outputs as comparable text: target order and trailing unwired outputs don't matter
+const wiring = (connections: N8NConnections, name: string) => {
+  const outputs = (connections[name]?.main ?? []).map(targets =>
+    targets.map(target => `${target.node}:${target.index}`).sort()
+  );
+  while (outputs.length && !outputs[outputs.length - 1].length) outputs.pop();
+  return JSON.stringify(outputs);
+};
+
+// What re-exporting from the form would change: nodes the builder doesn't
+// generate, settings edited beyond the form's options, and rewired connections
+const roundTripIssues = (workflow: N8NWorkflowJson, config: WorkflowConfig): ImportIssue[] => {
+  const generatedWorkflow = buildWorkflow(config);
+  const rebuilt = new Map(generatedWorkflow.nodes.map(node => [node.name, node]));
+  const imported = new Set(workflow.nodes.map(node => node.name));
+  const issues: ImportIssue[] = [];
+  for (const node of workflow.nodes) {
+    const generated = rebuilt.get(node.name);
+    if (!generated || generated.type !== node.type) {
+      issues.push({ severity: 'warning', message: `${node.name} has no matching builder step and will be left out`, node: node.name });
+    } else if (JSON.stringify(canonical(generated.parameters)) !== JSON.stringify(canonical(node.parameters))) {
+      issues.push({ severity: 'warning', message: `${node.name} has settings the form doesn't cover; the builder's defaults replace them`, node: node.name });
+    }
+    if (generated && wiring(generatedWorkflow.connections, node.name) !== wiring(workflow.connections, node.name)) {
+      issues.push({ severity: 'warning', message: `${node.name} is connected differently; the builder's connections replace its own`, node: node.name });
+    }
+  }
+  for (const name of rebuilt.keys()) {
+    if (!imported.has(name)) issues.push({ severity: 'warning', message: `The builder adds ${name}` });
+  }
+  return issues;
+};
+
+/** Parse and check pasted or uploaded workflow JSON, recovering the builder form when it can. */
+export const importWorkflow = (text: string, base: WorkflowConfig): WorkflowImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { issues: [{ severity: 'error', message: `Not valid JSON: ${err instanceof Error ? err.message : String(err)}` }], requirements: [] };
+  }
+
+  const parsed = n8nWorkflowSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues.map(issue => ({
+        severity: 'error' as const,
+        message: issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+      })),
+      requirements: [],
+    };
+  }
+
+  const workflow = parsed.data;
+  const issues = structuralIssues(workflow);
+  const requirements = importRequirements(workflow);
+  if (issues.some(issue => issue.severity === 'error')) return { workflow, issues, requirements };
+
+  const config = recoverConfig(workflow, base, issues);
+  if (!config) return { workflow, issues, requirements };
+  return { workflow, config, issues: [...issues, ...roundTripIssues(workflow, config)], requirements };
+};
@@ -0,0 +1,511 @@
+// Builds n8n workflow JSON from the builder form. Only the node types the
+// builder can produce are modelled; n8n ignores fields it doesn't know.
+
+// Credential type (e.g. `smtp`) -> the n8n credential a node uses for it
+export type N8NCredentials = Record<string, { id?: string; name: string }>;
+
+export interface N8NNode {
+  id: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  credentials?: N8NCredentials;
+}
+
+export interface N8NConnection {
+  node: string;
+  type: 'main';
+  index: number;
+}
+
+// Source node name -> one list of targets per output (IF nodes have two)
+export type N8NConnections = Record<string, { main: N8NConnection[][] }>;
+
+export interface N8NWorkflowJson {
+  name: string;
+  nodes: N8NNode[];
+  connections: N8NConnections;
+}
+
+export type AnalyzerStep = 'jobs' | 'server' | 'openai';
+
+export interface WorkflowConfig {
+  name: string;
+  // The production URL n8n shows for the intake webhook; its last path segment is the webhook path
+  webhookUrl: string;
+  analyzer: AnalyzerStep;
+  // The Case Scribe API server as n8n reaches it
+  apiBase: string;
+  // How long the job analyzer waits between status checks
+  pollSeconds: number;
+  // Only notify when the analysis finds at least this many errors
+  condition: { enabled: boolean; minErrors: number };
+  // Attach the corrected transcript (DOCX) to the email
+  attachTranscript: boolean;
+  email: { enabled: boolean; to: string };
+  slack: { enabled: boolean; channel: string };
+  fileDrop: { enabled: boolean; directory: string };
+  // Credentials picked in n8n, by node name; kept from an imported workflow so re-exports still carry them
+  credentials: Record<string, N8NCredentials>;
+}
+
+export const ANALYZER_STEPS: { value: AnalyzerStep; label: string; description: string }[] = [
+  {
+    value: 'jobs',
+    label: 'Case Scribe job API',
+    description: 'Submits a job to /api/jobs on your own server and polls until it finishes',
+  },
+  {
+    value: 'server',
+    label: 'Case Scribe server (single request)',
+    description: 'Posts both files to /api/analyze and waits for the result on one connection',
+  },
+  {
+    value: 'openai',
+    label: 'OpenAI Whisper + GPT-4',
+    description: 'Transcribes with Whisper and asks GPT-4 for corrections',
+  },
+];
+
+export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
+  name: 'Court Transcript Analysis Workflow',
+  webhookUrl: '',
+  analyzer: 'jobs',
+  apiBase: 'http://localhost:8787',
+  pollSeconds: 30,
+  condition: { enabled: false, minErrors: 1 },
+  attachTranscript: true,
+  email: { enabled: true, to: '' },
+  slack: { enabled: false, channel: '#transcripts' },
+  fileDrop: { enabled: false, directory: '/data/transcripts' },
+  credentials: {},
+};
+
+export interface WorkflowTemplate {
+  id: string;
+  label: string;
+  description: string;
+  // Applied over the current form, so URLs and addresses already entered are kept
+  config: Partial<WorkflowConfig>;
+}
+
+export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'on-premises',
+    label: 'On-premises analysis',
+    description: 'Runs our own analyzer through the job API, then emails the corrected transcript. Recordings never leave your network.',
+    config: {
+      name: 'Court Transcript Analysis (On-Premises)',
+      analyzer: 'jobs',
+      condition: { enabled: false, minErrors: 1 },
+      attachTranscript: true,
+      email: { enabled: true, to: '' },
+    },
+  },
+  {
+    id: 'review-queue',
+    label: 'Review queue drop',
+    description: 'Analyzes with our server and files corrected transcripts that need review into a shared folder, with a Slack note.',
+    config: {
+      name: 'Transcript Review Queue',
+      analyzer: 'jobs',
+      condition: { enabled: true, minErrors: 1 },
+      email: { enabled: false, to: '' },
+      slack: { enabled: true, channel: '#transcripts' },
+      fileDrop: { enabled: true, directory: '/data/transcripts' },
+    },
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI (hosted)',
+    description: 'The original workflow: Whisper and GPT-4 on api.openai.com. Sends the recording to OpenAI.',
+    config: {
+      name: 'Court Transcript Analysis Workflow',
+      analyzer: 'openai',
+      condition: { enabled: false, minErrors: 1 },
+      email: { enabled: true, to: '' },
+      slack: { enabled: false, channel: '#transcripts' },
+      fileDrop: { enabled: false, directory: '/data/transcripts' },
+    },
+  },
+];
+
+/** A template over the current config; enabled outputs keep the addresses already typed in. */
+export const applyTemplate = (config: WorkflowConfig, template: WorkflowTemplate): WorkflowConfig => {
+  const next = { ...config, ...template.config };
+  if (template.config.email) next.email = { ...template.config.email, to: config.email.to };
+  if (template.config.slack) next.slack = { ...template.config.slack, channel: config.slack.channel };
+  if (template.config.fileDrop) next.fileDrop = { ...template.config.fileDrop, directory: config.fileDrop.directory };
+  return next;
+};
+
+// Our analyzers answer with the full analysis, including the corrected documents in `downloads`
+export const returnsDownloads = (analyzer: AnalyzerStep) => analyzer !== 'openai';
+
+const DEFAULT_WEBHOOK_PATH = 'transcript-analysis';
+
+export const webhookPathOf = (webhookUrl: string) => {
+  const path = webhookUrl.trim().replace(/[?#].*$/, '').replace(/\/+$/, '');
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  return path.includes('/') && segment ? segment : DEFAULT_WEBHOOK_PATH;
+};
+
+// Whether a config produces the corrected DOCX as a binary for later steps
+export const producesTranscriptFile = (config: WorkflowConfig) =>
+  returnsDownloads(config.analyzer) && ((config.email.enabled && config.attachTranscript) || config.fileDrop.enabled);
+
+const COLUMN_WIDTH = 220;
+const ROW_HEIGHT = 160;
+
+const createGraph = () => {
+  const nodes: N8NNode[] = [];
+  const connections: N8NConnections = {};
+
+  const add = (node: Omit<N8NNode, 'id' | 'position'>, column: number, row = 0): N8NNode => {
+    const added = {
+      id: String(nodes.length + 1),
+      ...node,
+      position: [240 + column * COLUMN_WIDTH, 300 + row * ROW_HEIGHT] as [number, number],
+    };
+    nodes.push(added);
+    return added;
+  };
+
+  const connect = (from: N8NNode, to: N8NNode, output = 0) => {
+    if (!connections[from.name]) connections[from.name] = { main: [] };
+    const outputs = connections[from.name].main;
+    while (outputs.length <= output) outputs.push([]);
+    outputs[output].push({ node: to.name, type: 'main', index: 0 });
+  };
+
+  return { nodes, connections, add, connect };
+};
+
+type Graph = ReturnType<typeof createGraph>;
+
+// The analyzer's last node, the column after it and n8n expressions for its results
+interface AnalyzerNodes {
+  last: N8NNode;
+  nextColumn: number;
+  // Node whose output is the analysis response (ours only)
+  resultNode?: string;
+  errorCount: string;
+  score: string;
+}
+
+const apiUrl = (config: WorkflowConfig, path: string) => `${config.apiBase.replace(/\/$/, '')}${path}`;
+
+// The webhook's two files as the multipart body /api/analyze and /api/jobs expect
+const analysisUpload = {
+  sendBody: true,
+  contentType: 'multipart-form-data',
+  bodyParameters: {
+    parameters: [
+      { parameterType: 'formBinaryData', name: 'rtx', inputDataFieldName: 'transcript' },
+      { parameterType: 'formBinaryData', name: 'audio', inputDataFieldName: 'audio' },
+    ],
+  },
+};
+
+const serverResultExpressions = (resultNode: string) => {
+  const summary = `$('${resultNode}').item.json.analysis.summary`;
+  return {
+    resultNode,
+    errorCount: `${summary}.totalErrors`,
+    score: `Math.round(${summary}.confidenceScore * 1000) / 10`,
+  };
+};
+
+const addServerAnalyzer = ({ add, connect }: Graph, webhook: N8NNode, config: WorkflowConfig): AnalyzerNodes => {
+  const analyze = add({
+    name: 'Analyze Transcript',
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 4.2,
+    parameters: {
+      method: 'POST',
+      url: apiUrl(config, '/api/analyze'),
+      ...analysisUpload,
+      // long recordings take a while to transcribe
+      options: { timeout: 3 * 60 * 60 * 1000 },
+    },
+  }, 1);
+  connect(webhook, analyze);
+  return { last: analyze, nextColumn: 2, ...serverResultExpressions(analyze.name) };
+};
+
+// Submit a job, then wait/check in a loop until it completes (continue) or fails (stop with its error)
+const addJobAnalyzer = ({ add, connect }: Graph, webhook: N8NNode, config: WorkflowConfig): AnalyzerNodes => {
+  const submit = add({
+    name: 'Submit Analysis Job',
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 4.2,
+    parameters: { method: 'POST', url: apiUrl(config, '/api/jobs'), ...analysisUpload, options: {} },
+  }, 1);
+  const wait = add({
+    name: 'Wait',
+    type: 'n8n-nodes-base.wait',
+    typeVersion: 1.1,
+    parameters: { resume: 'timeInterval', amount: config.pollSeconds, unit: 'seconds' },
+  }, 2);
+  const check = add({
+    name: 'Check Job Status',
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 4.2,
+    parameters: {
+      method: 'GET',
+      url: `=${apiUrl(config, '/api/jobs/')}{{ $('Submit Analysis Job').item.json.jobId }}`,
+      options: {},
+    },
+  }, 3);
+  const status = add({
+    name: 'Job Status',
+    type: 'n8n-nodes-base.switch',
+    typeVersion: 1,
+    parameters: {
+      dataType: 'string',
+      value1: '={{ $json.job.status }}',
+      rules: {
+        rules: [
+          { value2: 'completed', output: 0 },
+          { value2: 'failed', output: 1 },
+        ],
+      },
+      // queued or running: check again after the wait
+      fallbackOutput: 2,
+    },
+  }, 4);
+  const failed = add({
+    name: 'Analysis Failed',
+    type: 'n8n-nodes-base.stopAndError',
+    typeVersion: 1,
+    parameters: { errorMessage: '={{ $json.job.error }}' },
+  }, 5, 1);
+  // Passes the analysis response on as the item, so later nodes see `downloads` at the top level
+  const result = add({
+    name: 'Analysis Result',
+    type: 'n8n-nodes-base.set',
+    typeVersion: 3.4,
+    parameters: { mode: 'raw', jsonOutput: '={{ JSON.stringify($json.result) }}', options: {} },
+  }, 5);
+  connect(webhook, submit);
+  connect(submit, wait);
+  connect(wait, check);
+  connect(check, status);
+  connect(status, result, 0);
+  connect(status, failed, 1);
+  connect(status, wait, 2);
+  return { last: result, nextColumn: 6, ...serverResultExpressions(result.name) };
+};
+
+const openAiHeaders = {
+  parameters: [{ name: 'Authorization', value: 'Bearer {{ $env.OPENAI_API_KEY }}' }],
+};
+
+const addOpenAiAnalyzer = ({ add, connect }: Graph, webhook: N8NNode): AnalyzerNodes => {
+  const transcription = add({
+    name: 'Audio Transcription',
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 3,
+    parameters: {
+      url: 'https://api.openai.com/v1/audio/transcriptions',
+      authentication: 'headerAuth',
+      sendHeaders: true,
+      headerParameters: openAiHeaders,
+      sendBody: true,
+      bodyParameters: {
+        parameters: [
+          { name: 'file', value: '={{ $json.audioFile }}' },
+          { name: 'model', value: 'whisper-1' },
+        ],
+      },
+    },
+  }, 1);
+  const merge = add({
+    name: 'Merge',
+    type: 'n8n-nodes-base.merge',
+    typeVersion: 2,
+    parameters: { mode: 'combine', combineBy: 'mergeByIndex', options: {} },
+  }, 2);
+  const correction = add({
+    name: 'AI Correction',
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 3,
+    parameters: {
+      url: 'https://api.openai.com/v1/chat/completions',
+      authentication: 'headerAuth',
+      sendHeaders: true,
+      headerParameters: openAiHeaders,
+      sendBody: true,
+      bodyParameters: {
+        parameters: [
+          { name: 'model', value: 'gpt-4' },
+          {
+            name: 'messages',
+            value: '=[{"role": "system", "content": "You are a legal transcript correction AI. Compare the original transcript with the audio transcription and identify errors, then provide a corrected version with high accuracy for court use."}, {"role": "user", "content": "Original transcript: {{ $json.originalTranscript }}\\n\\nAudio transcription: {{ $json.audioTranscription }}\\n\\nPlease identify errors and provide corrections."}]',
+          },
+        ],
+      },
+    },
+  }, 3);
+  connect(webhook, transcription);
+  connect(transcription, merge);
+  connect(merge, correction);
+  return {
+    last: correction,
+    nextColumn: 4,
+    errorCount: "$('AI Correction').item.json.errorCount",
+    score: "$('AI Correction').item.json.confidenceScore",
+  };
+};
+
+/** The n8n workflow for a builder config: intake, analysis, optional condition, then each output. */
+export const buildWorkflow = (config: WorkflowConfig): N8NWorkflowJson => {
+  const graph = createGraph();
+  const { add, connect } = graph;
+
+  const webhook = add({
+    name: 'Webhook',
+    type: 'n8n-nodes-base.webhook',
+    typeVersion: 2,
+    parameters: {
+      httpMethod: 'POST',
+      path: webhookPathOf(config.webhookUrl),
+      responseMode: 'onReceived',
+      options: {},
+    },
+  }, 0);
+
+  const analyzers: Record<AnalyzerStep, () => AnalyzerNodes> = {
+    jobs: () => addJobAnalyzer(graph, webhook, config),
+    server: () => addServerAnalyzer(graph, webhook, config),
+    openai: () => addOpenAiAnalyzer(graph, webhook),
+  };
+  const analyzer = analyzers[config.analyzer]();
+  let column = analyzer.nextColumn;
+  let tail = analyzer.last;
+
+  if (config.condition.enabled) {
+    const condition = add({
+      name: 'Enough Errors?',
+      type: 'n8n-nodes-base.if',
+      typeVersion: 1,
+      parameters: {
+        conditions: {
+          number: [{
+            value1: `={{ ${analyzer.errorCount} }}`,
+            operation: 'largerEqual',
+            value2: config.condition.minErrors,
+          }],
+        },
+      },
+    }, column++);
+    connect(tail, condition);
+    // outputs hang off the IF node's "true" output; the "false" output ends the run
+    tail = condition;
+  }
+
+  if (producesTranscriptFile(config)) {
+    const toFile = add({
+      name: 'Corrected Transcript File',
+      type: 'n8n-nodes-base.convertToFile',
+      typeVersion: 1.1,
+      parameters: {
+        operation: 'toBinary',
+        sourceProperty: 'downloads.docx_base64',
+        options: {
+          fileName: `={{ $('${analyzer.resultNode}').item.json.downloads.filenames.docx }}`,
+          mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        },
+      },
+    }, column++);
+    connect(tail, toFile);
+    tail = toFile;
+  }
+
+  const summaryLine = `{{ ${analyzer.errorCount} }} potential errors, word accuracy {{ ${analyzer.score} }}%`;
+  const outputs: Omit<N8NNode, 'id' | 'position'>[] = [];
+  if (config.email.enabled) {
+    outputs.push({
+      name: 'Send Notification',
+      type: 'n8n-nodes-base.emailSend',
+      typeVersion: 2.1,
+      parameters: {
+        fromEmail: 'noreply@courttranscripts.ai',
+        toEmail: config.email.to,
+        subject: 'Transcript Analysis Complete',
+        emailFormat: 'html',
+        html: `=<h2>Court Transcript Analysis Complete</h2><p>Your transcript has been analyzed.</p><p><strong>Analysis Summary:</strong> ${summaryLine}</p>`,
+        options: producesTranscriptFile(config) && config.attachTranscript ? { attachments: 'data' } : {},
+      },
+    });
+  }
+  if (config.slack.enabled) {
+    outputs.push({
+      name: 'Post to Slack',
+      type: 'n8n-nodes-base.slack',
+      typeVersion: 2.2,
+      parameters: {
+        resource: 'message',
+        operation: 'post',
+        select: 'channel',
+        channelId: { __rl: true, mode: 'name', value: config.slack.channel },
+        text: `=Transcript analysis complete: ${summaryLine}`,
+        otherOptions: {},
+      },
+    });
+  }
+  if (config.fileDrop.enabled && returnsDownloads(config.analyzer)) {
+    outputs.push({
+      name: 'Write to Folder',
+      type: 'n8n-nodes-base.readWriteFile',
+      typeVersion: 1,
+      parameters: {
+        operation: 'write',
+        fileName: `=${config.fileDrop.directory.replace(/\/$/, '')}/{{ $binary.data.fileName }}`,
+        dataPropertyName: 'data',
+        options: {},
+      },
+    });
+  }
+
+  // Outputs run side by side, stacked around the main row
+  outputs.forEach((output, i) => connect(tail, add(output, column, i - (outputs.length - 1) / 2)));
+
+  for (const node of graph.nodes) {
+    if (config.credentials[node.name]) node.credentials = config.credentials[node.name];
+  }
+
+  return { name: config.name, nodes: graph.nodes, connections: graph.connections };
+};
+
+export interface WorkflowRequirement {
+  name: string;
+  kind: 'env' | 'credential';
+  description: string;
+  required: boolean;
+}
+
+/** Environment variables and n8n credentials the generated workflow depends on. */
+export const workflowRequirements = (config: WorkflowConfig): WorkflowRequirement[] => {
+  const requirements: WorkflowRequirement[] = [];
+  if (config.analyzer === 'openai') {
+    requirements.push({ name: 'OPENAI_API_KEY', kind: 'env', description: 'OpenAI API key for GPT-4 and Whisper', required: true });
+  }
+  if (config.email.enabled) {
+    requirements.push({ name: 'SMTP', kind: 'credential', description: 'Email server for notifications', required: true });
+  }
+  if (config.slack.enabled) {
+    requirements.push({ name: 'Slack API', kind: 'credential', description: 'Bot token allowed to post in the channel', required: true });
+  }
+  if (config.fileDrop.enabled && returnsDownloads(config.analyzer)) {
+    requirements.push({
+      name: 'N8N_RESTRICT_FILE_ACCESS_TO',
+      kind: 'env',
+      description: `If set, must include ${config.fileDrop.directory}`,
+      required: false,
+    });
+  }
+  return requirements;
+};
@@ -0,0 +1,110 @@
+import type {
+  AlignmentOp,
+  AnalysisData,
+  AnalysisDownloads,
+  AnalyzeResponse,
+  LineMap,
+  LineSpeakers,
+  LineTiming,
+} from '@/types/analysis';
+import type { ReviewDecisions } from '@/lib/review';
+import type { ErrataDetails } from '@/lib/errata';
+import { PROJECTS_STORE, runInStore, updateInStore } from '@/lib/db';
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // Source files are stored as Blobs; IndexedDB keeps File objects intact
+  transcriptFile: File | null;
+  audioFile: File | null;
+  analysis: AnalysisData;
+  transcriptText: string;
+  lineTimings: LineTiming[];
+  // Absent on projects saved before page:line locations existed
+  lineMap?: LineMap;
+  lineSpeakers?: LineSpeakers;
+  // Absent on projects saved before the compare view existed
+  alignment?: AlignmentOp[];
+  decisions: ReviewDecisions;
+  correctedTranscript: string;
+  downloads: AnalysisDownloads | null;
+  errataDetails?: ErrataDetails;
+}
+
+// Lightweight listing row, so the library page doesn't hold every result in state
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  transcriptName: string | null;
+  audioName: string | null;
+  totalErrors: number;
+  reviewed: number;
+}
+
+const run = <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runInStore(PROJECTS_STORE, mode, fn);
+
+const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  transcriptName: project.transcriptFile?.name ?? null,
+  audioName: project.audioFile?.name ?? null,
+  totalErrors: project.analysis.errors.length,
+  reviewed: Object.values(project.decisions).filter(d => d.status !== 'pending').length,
+});
+
+/** A new (unsaved) project from a finished analysis of the given files. */
+export const createProject = (transcriptFile: File, audioFile: File, data: AnalyzeResponse): Project => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: transcriptFile.name.replace(/\.[^.]+$/, ''),
+    createdAt: now,
+    updatedAt: now,
+    transcriptFile,
+    audioFile,
+    analysis: data.analysis,
+    transcriptText: data.transcriptText || '',
+    lineTimings: data.lineTimings || [],
+    lineMap: data.lineMap || [],
+    lineSpeakers: data.lineSpeakers || [],
+    alignment: data.alignment || [],
+    decisions: {},
+    correctedTranscript: data.correctedTranscript || '',
+    downloads: data.downloads?.txt_base64 && data.downloads?.docx_base64 ? {
+      txt: { b64: data.downloads.txt_base64, name: data.downloads.filenames?.txt || 'corrected_transcript.txt', mime: 'text/plain' },
+      docx: { b64: data.downloads.docx_base64, name: data.downloads.filenames?.docx || 'corrected_transcript.docx', mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    } : null,
+  };
+};
+
+export const getProject = (id: string) =>
+  run<Project | undefined>('readonly', store => store.get(id));
+
+export const listProjects = async () => {
+  const projects = await run<Project[]>('readonly', store => store.getAll());
+  return projects
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveProject = async (project: Project) => {
+  const saved = { ...project, updatedAt: new Date().toISOString() };
+  await run('readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const updateProject = (id: string, changes: Partial<Omit<Project, 'id' | 'createdAt'>>) =>
+  updateInStore<Project>(PROJECTS_STORE, id, existing => {
+    if (!existing) throw new Error(`Project ${id} not found`);
+    return { ...existing, ...changes, updatedAt: new Date().toISOString() };
+  });
+
+export const deleteProject = (id: string) =>
+  run('readwrite', store => store.delete(id));
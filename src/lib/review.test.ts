@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { buildCorrectedTranscript, locateErrors, type ReviewDecisions } from '@/lib/review';
+import type { AnalysisError } from '@/types/analysis';
+
+const TRANSCRIPT = 'Q. Where did you go?\nA. I went to the the stor.\nQ. Yes sur.';
+
+const error = (fields: Partial<AnalysisError>): AnalysisError => ({
+  line: 1,
+  column: 1,
+  original: '',
+  suggested: '',
+  confidence: 0.9,
+  type: 'audio_mismatch',
+  ...fields,
+});
+
+const at = (offset: number, length: number) => ({ page: 1, line: 1, offset, length });
+
+describe('locateErrors', () => {
+  it('uses offsets that hold the error text, whatever the case', () => {
+    const spans = locateErrors(TRANSCRIPT, [error({ line: 2, column: 22, original: 'STOR', location: at(42, 4) })]);
+    expect(spans).toEqual([{ index: 0, start: 42, end: 46 }]);
+  });
+
+  it('falls back to line and column when an offset points elsewhere or out of bounds', () => {
+    const spans = locateErrors(TRANSCRIPT, [
+      error({ line: 2, column: 22, original: 'stor', location: at(3, 4) }),
+      error({ line: 3, column: 8, original: 'sur', location: at(500, 3) }),
+    ]);
+    expect(spans.map(span => TRANSCRIPT.slice(span.start, span.end))).toEqual(['stor', 'sur']);
+  });
+
+  it('searches forward from the previous match without going back', () => {
+    const spans = locateErrors(TRANSCRIPT, [
+      error({ line: 3, column: 8, original: 'sur', location: at(55, 3) }),
+      error({ line: 9, column: 1, original: 'the' }),
+    ]);
+    // "the" only appears before "sur", so the search finds nothing
+    expect(spans).toEqual([{ index: 0, start: 55, end: 58 }]);
+  });
+
+  it('gives insertions an empty span', () => {
+    const spans = locateErrors(TRANSCRIPT, [error({ line: 1, column: 9, original: '(missing)', suggested: 'else' })]);
+    expect(spans).toEqual([{ index: 0, start: 8, end: 8 }]);
+  });
+});
+
+describe('buildCorrectedTranscript', () => {
+  const errors = [
+    error({ line: 1, column: 9, original: '(missing)', suggested: 'else' }),
+    error({ line: 2, column: 14, original: 'the the', suggested: 'the', location: at(34, 7) }),
+    error({ line: 2, column: 22, original: 'stor', suggested: 'store', location: at(42, 4) }),
+    error({ line: 3, column: 8, original: 'sur', suggested: 'sir', location: at(55, 3) }),
+  ];
+
+  it('applies accepted and edited corrections only', () => {
+    const decisions: ReviewDecisions = {
+      0: { status: 'accepted' },
+      2: { status: 'edited', text: 'stores' },
+      3: { status: 'rejected' },
+    };
+    expect(buildCorrectedTranscript(TRANSCRIPT, errors, decisions))
+      .toBe('Q. Where else did you go?\nA. I went to the the stores.\nQ. Yes sur.');
+  });
+
+  it('replaces whole multi-word spans', () => {
+    expect(buildCorrectedTranscript(TRANSCRIPT, errors, { 1: { status: 'accepted' } }))
+      .toBe('Q. Where did you go?\nA. I went to the stor.\nQ. Yes sur.');
+  });
+
+  it('leaves the transcript alone when nothing is decided', () => {
+    expect(buildCorrectedTranscript(TRANSCRIPT, errors, {})).toBe(TRANSCRIPT);
+  });
+});
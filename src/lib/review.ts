@@ -0,0 +1,126 @@
+import type { AnalysisError } from '@/types/analysis';
+
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected' | 'edited';
+
+export interface ReviewDecision {
+  status: ReviewStatus;
+  // Hand-edited replacement text, only meaningful when status is 'edited'
+  text?: string;
+}
+
+// Decisions are keyed by the error's index in AnalysisData.errors
+export type ReviewDecisions = Record<number, ReviewDecision>;
+
+export interface ErrorSpan {
+  index: number;
+  start: number;
+  end: number;
+}
+
+// Placeholders the aligner emits when one side of a diff is empty
+const MISSING = '(missing)';
+const REMOVE = '(remove)';
+
+export const getDecision = (decisions: ReviewDecisions, index: number): ReviewDecision =>
+  decisions[index] ?? { status: 'pending' };
+
+/**
+ * Find where each error's `original` text sits in the transcript. The server's
+ * character offset is used when the text there matches; otherwise the line/column is tried, then
+ * a search forward from the previous match, since errors arrive in document order.
+ * Insertions get an empty span where the missing words go. Errors that cannot be
+ * found get no span.
+ */
+export const locateErrors = (transcript: string, errors: AnalysisError[]): ErrorSpan[] => {
+  const haystack = transcript.toLowerCase();
+  const lineStarts = [0];
+  for (let i = 0; i < transcript.length; i++) {
+    if (transcript[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const spans: ErrorSpan[] = [];
+  let cursor = 0;
+  errors.forEach((error, index) => {
+    if (error.original === MISSING) {
+      const lineStart = lineStarts[error.line - 1];
+      const at = error.location?.offset ?? (lineStart === undefined ? -1 : lineStart + Math.max(error.column - 1, 0));
+      if (at < 0 || at > transcript.length) return;
+      spans.push({ index, start: at, end: at });
+      cursor = Math.max(cursor, at);
+      return;
+    }
+
+    const needle = error.original.toLowerCase();
+    if (!needle) return;
+
+    // Offsets from a saved project or another parse of the file may not fit this
+    // text, so they only count when they hold the error's words
+    const { offset, length } = error.location ?? { offset: -1, length: 0 };
+    if (length > 0 && offset >= 0 && offset + length <= transcript.length && haystack.slice(offset, offset + length) === needle) {
+      spans.push({ index, start: offset, end: offset + length });
+      cursor = Math.max(cursor, offset + length);
+      return;
+    }
+
+    let start = -1;
+    const lineStart = lineStarts[error.line - 1];
+    if (lineStart !== undefined) {
+      const offset = lineStart + Math.max(error.column - 1, 0);
+      if (haystack.startsWith(needle, offset)) start = offset;
+    }
+    if (start === -1) start = haystack.indexOf(needle, cursor);
+    if (start === -1) return;
+
+    spans.push({ index, start, end: start + needle.length });
+    cursor = Math.max(cursor, start + needle.length);
+  });
+  return spans;
+};
+
+/** The text a decision puts in place of the error span, or null to keep the original. */
+export const getReplacement = (error: AnalysisError, decision: ReviewDecision): string | null => {
+  switch (decision.status) {
+    case 'accepted':
+      return error.suggested === REMOVE ? '' : error.suggested;
+    case 'edited':
+      return decision.text ?? error.original;
+    default:
+      return null;
+  }
+};
+
+// Inserted words need a space on each side that touches another word
+const padInsertion = (transcript: string, at: number, text: string) => {
+  if (!text) return text;
+  const before = at > 0 && !/\s/.test(transcript[at - 1]) ? ' ' : '';
+  const after = at < transcript.length && !/\s/.test(transcript[at]) ? ' ' : '';
+  return before + text + after;
+};
+
+/** Rebuild the transcript applying only the changes the reviewer has signed off on. */
+export const buildCorrectedTranscript = (
+  transcript: string,
+  errors: AnalysisError[],
+  decisions: ReviewDecisions,
+  spans: ErrorSpan[] = locateErrors(transcript, errors)
+): string => {
+  const ordered = [...spans].sort((a, b) => a.start - b.start);
+  let result = '';
+  let last = 0;
+  for (const span of ordered) {
+    // Overlapping spans can't both be applied; the earlier one wins
+    if (span.start < last) continue;
+    const replacement = getReplacement(errors[span.index], getDecision(decisions, span.index));
+    if (replacement === null) continue;
+    result += transcript.slice(last, span.start) +
+      (span.start === span.end ? padInsertion(transcript, span.start, replacement) : replacement);
+    last = span.end;
+  }
+  return result + transcript.slice(last);
+};
+
+export const countDecisions = (errors: AnalysisError[], decisions: ReviewDecisions) =>
+  errors.reduce((acc, _error, index) => {
+    acc[getDecision(decisions, index).status]++;
+    return acc;
+  }, { pending: 0, accepted: 0, rejected: 0, edited: 0 } as Record<ReviewStatus, number>);
@@ -0,0 +1,146 @@
+// Destinations whose content is metadata rather than document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer',
+  'headerl', 'headerr', 'footerl', 'footerr', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles',
+]);
+
+// \'hh escapes are cp1252 bytes in RTF from Word and CAT software. It matches
+// Latin-1 except for 0x80-0x9F, which hold curly quotes, dashes and the like.
+const CP1252_80_9F = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+const decodeAnsiByte = (byte: number) =>
+  byte >= 0x80 && byte < 0xa0 ? CP1252_80_9F[byte - 0x80] : String.fromCharCode(byte);
+
+/**
+ * Minimal RTF to plain text conversion for transcript exports. Paragraph and line
+ * breaks become newlines and page breaks become form feeds, so pagination survives
+ * for the transcript parser.
+ */
+export const rtfToText = (rtf: string): string => {
+  let out = '';
+  // Per-group state: whether text is skipped and how many chars follow a \uN escape
+  const stack: { skip: boolean; uc: number }[] = [];
+  let skip = false;
+  let uc = 1;
+  let pendingSkipChars = 0;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (skip) return;
+    for (const ch of text) {
+      if (pendingSkipChars > 0) {
+        pendingSkipChars--;
+        continue;
+      }
+      out += ch;
+    }
+  };
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    if (ch === '{') {
+      stack.push({ skip, uc });
+      i++;
+      // {\*\destination ...} groups are ignorable by definition
+      if (rtf.startsWith('\\*', i)) skip = true;
+      continue;
+    }
+    if (ch === '}') {
+      const state = stack.pop();
+      if (state) ({ skip, uc } = state);
+      i++;
+      continue;
+    }
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+    if (ch !== '\\') {
+      emit(ch);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === "'") {
+      emit(decodeAnsiByte(parseInt(rtf.substr(i + 2, 2), 16)));
+      i += 4;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '\n' || next === '\r') {
+      emit('\n');
+      i += 2;
+      continue;
+    }
+
+    const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+    i += match[0].length;
+    const word = match[1];
+    const param = match[2] !== undefined ? Number(match[2]) : null;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      skip = true;
+      continue;
+    }
+    switch (word) {
+      case 'par':
+      case 'line':
+      case 'sect':
+        emit('\n');
+        break;
+      case 'page':
+        emit('\f');
+        break;
+      case 'tab':
+        emit('\t');
+        break;
+      case 'uc':
+        uc = param ?? 1;
+        break;
+      case 'u':
+        if (param !== null) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          if (!skip) pendingSkipChars = uc;
+        }
+        break;
+      case 'emdash':
+        emit('—');
+        break;
+      case 'endash':
+        emit('–');
+        break;
+      case 'lquote':
+        emit('‘');
+        break;
+      case 'rquote':
+        emit('’');
+        break;
+      case 'ldblquote':
+        emit('“');
+        break;
+      case 'rdblquote':
+        emit('”');
+        break;
+      default:
+        break;
+    }
+  }
+  return out;
+};
+
+export const isRtf = (text: string) => text.trimStart().startsWith('{\\rtf');
@@ -0,0 +1,76 @@
+// A small transcript/audio pair for exercising a workflow without real case
+// files. The audio is synthesized, so nothing confidential is ever sent.
+
+export const SAMPLE_TRANSCRIPT = `                                                    1
+ 1               UNITED STATES DISTRICT COURT
+ 2                  SAMPLE DISTRICT OF EXAMPLE
+ 3
+ 4   JANE SAMPLE,
+ 5            Plaintiff,
+ 6       v.                               Case No. 00-cv-0000
+ 7   EXAMPLE CORP.,
+ 8            Defendant.
+ 9
+10               DEPOSITION OF JOHN WITNESS
+11
+12   BY MS. COUNSEL:
+13        Q.   Please state your name for the record.
+14        A.   John Witness.
+15        Q.   Where were you on the morning of March 3rd?
+16        A.   I was at the warehouse on Fifth Street.
+17        Q.   Who else was present?
+18        A.   Just the shift supervisor and me.
+19             MR. DEFENSE: Objection, form.
+20        Q.   You may answer.
+21        A.   The supervisor and one driver, I believe.
+22
+23             (Sample transcript for workflow testing.)
+24
+25
+`;
+
+export const SAMPLE_AUDIO_SECONDS = 3;
+const SAMPLE_RATE = 16000;
+
+/**
+ * A short mono 16-bit WAV: a soft tone with a few pauses, enough for the
+ * intake to see a real recording.
+ */
+export const createSampleAudio = (seconds = SAMPLE_AUDIO_SECONDS) => {
+  const samples = Math.round(seconds * SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) =>
+    tag.split('').forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples * 2, true);
+
+  for (let i = 0; i < samples; i++) {
+    const t = i / SAMPLE_RATE;
+    // half-second bursts separated by pauses
+    const envelope = t % 1 < 0.5 ? Math.sin((Math.PI * (t % 1)) / 0.5) : 0;
+    view.setInt16(44 + i * 2, Math.round(envelope * 0.2 * 32767 * Math.sin(2 * Math.PI * 220 * t)), true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/** The multipart body the intake webhook expects: `transcript` and `audio` files. */
+export const buildSamplePayload = () => {
+  const form = new FormData();
+  form.append('transcript', new File([SAMPLE_TRANSCRIPT], 'sample-transcript.txt', { type: 'text/plain' }));
+  form.append('audio', new File([createSampleAudio()], 'sample-audio.wav', { type: 'audio/wav' }));
+  form.append('test', 'true');
+  return form;
+};
@@ -0,0 +1,50 @@
+import type { AnalysisError, LineSpeakers } from '@/types/analysis';
+
+// Errors on blank lines, parentheticals, or in transcripts without speaker labels
+export const UNATTRIBUTED = 'Unattributed';
+
+export interface SpeakerStats {
+  speaker: string;
+  errors: number;
+  // Words the speaker has in the transcript; 0 when line speakers are unknown
+  words: number;
+  // Errors per 100 words spoken
+  density: number;
+}
+
+export const speakerOf = (error: AnalysisError) => error.speaker || UNATTRIBUTED;
+
+const countWords = (text: string) => text.match(/[\w']+/g)?.length ?? 0;
+
+/**
+ * Error counts and density for each speaker, densest first. Word counts come
+ * from the transcript lines attributed to each speaker.
+ */
+export const computeSpeakerStats = (
+  errors: AnalysisError[],
+  transcript: string,
+  lineSpeakers: LineSpeakers = []
+): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>();
+  const entry = (speaker: string) => {
+    let s = stats.get(speaker);
+    if (!s) {
+      s = { speaker, errors: 0, words: 0, density: 0 };
+      stats.set(speaker, s);
+    }
+    return s;
+  };
+
+  if (lineSpeakers.length) {
+    transcript.split('\n').forEach((line, i) => {
+      const speaker = lineSpeakers[i];
+      if (speaker) entry(speaker).words += countWords(line);
+    });
+  }
+  for (const error of errors) entry(speakerOf(error)).errors++;
+
+  return Array.from(stats.values())
+    .filter(s => s.errors > 0 || s.words > 0)
+    .map(s => ({ ...s, density: s.words ? (s.errors / s.words) * 100 : 0 }))
+    .sort((a, b) => b.density - a.density || b.errors - a.errors);
+};
@@ -0,0 +1,24 @@
+import type { LineTiming } from '@/types/analysis';
+
+/**
+ * Line (1-based) being spoken at `time`: the last timed line that has started.
+ * `timings` must be sorted by line, which the aligner guarantees.
+ */
+export const findActiveLine = (timings: LineTiming[], time: number): number | null => {
+  let lo = 0;
+  let hi = timings.length - 1;
+  let found: LineTiming | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (timings[mid].start <= time) {
+      found = timings[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found ? found.line : null;
+};
+
+export const indexTimingsByLine = (timings: LineTiming[]) =>
+  new Map(timings.map(timing => [timing.line, timing]));
@@ -0,0 +1,222 @@
+import { isRtf, rtfToText } from '@/lib/rtf';
+
+export type LineKind =
+  | 'question'
+  | 'answer'
+  | 'speaker'
+  | 'colloquy'
+  | 'parenthetical'
+  | 'byline'
+  | 'blank';
+
+export interface TranscriptLine {
+  page: number;
+  // Line number on the page, as printed in the transcript
+  line: number;
+  // Line content without the printed line number
+  text: string;
+  kind: LineKind;
+  // Who is speaking on this line: a label such as "THE COURT", the examining
+  // attorney for Q lines when a BY line named them, or "Q"/"A"
+  speaker: string | null;
+  // Character offset of the line in TranscriptDocument.text
+  offset: number;
+}
+
+export interface TranscriptPage {
+  number: number;
+  lines: TranscriptLine[];
+}
+
+export interface TranscriptDocument {
+  pages: TranscriptPage[];
+  lines: TranscriptLine[];
+  // Line contents joined with '\n'; offsets and error positions refer to this text
+  text: string;
+  speakers: string[];
+  // False when the source had no printed line numbers and pages were synthesized
+  isPaginated: boolean;
+}
+
+export interface ParseOptions {
+  linesPerPage?: number;
+}
+
+const DEFAULT_LINES_PER_PAGE = 25;
+
+const PAGE_HEADER = /^(\s*)(?:page\s+)?(\d{1,5})\s*$/i;
+const NUMBERED_LINE = /^\s*(\d{1,2})(?:\s(.*))?$/;
+// "Q." / "A." markers; a bare letter needs wide spacing so prose like "A lawyer" isn't an answer
+const QUESTION = /^Q(?:[.:](?:\s|$)|\s{2,}|\t|$)/;
+const ANSWER = /^A(?:[.:](?:\s|$)|\s{2,}|\t|$)/;
+const BYLINE = /^BY\s+([A-Z][A-Z.'\- ]+?):?\s*$/;
+const SPEAKER = /^((?:THE\s+)?[A-Z][A-Z.'\- ]{1,40}?):(?:\s+|$)/;
+// Page numbers sit far to the right; printed line numbers do not
+const HEADER_INDENT = 10;
+
+interface RawLine {
+  number: number | null;
+  content: string;
+  pageBreak: boolean;
+  headerPage: number | null;
+}
+
+const splitRawLines = (source: string, linesPerPage: number): RawLine[] => {
+  const rawLines: RawLine[] = [];
+  let pendingBreak = false;
+
+  // Form feeds (page breaks) get a line of their own, without adding blank lines around them
+  const split = source.replace(/\r\n?/g, '\n').replace(/\n?\f\n?/g, '\n\f\n').split('\n');
+  for (const raw of split) {
+    if (raw === '\f') {
+      pendingBreak = true;
+      continue;
+    }
+
+    const header = PAGE_HEADER.exec(raw);
+    if (header) {
+      const value = Number(header[2]);
+      const explicit = /page/i.test(raw) || header[1].length >= HEADER_INDENT || value > linesPerPage;
+      if (explicit || pendingBreak) {
+        rawLines.push({ number: null, content: '', pageBreak: true, headerPage: value });
+        pendingBreak = false;
+        continue;
+      }
+    }
+
+    const numbered = NUMBERED_LINE.exec(raw);
+    if (numbered && Number(numbered[1]) >= 1 && Number(numbered[1]) <= linesPerPage) {
+      rawLines.push({ number: Number(numbered[1]), content: numbered[2] ?? '', pageBreak: pendingBreak, headerPage: null });
+    } else {
+      rawLines.push({ number: null, content: raw, pageBreak: pendingBreak, headerPage: null });
+    }
+    pendingBreak = false;
+  }
+  return rawLines;
+};
+
+/**
+ * Parse a plain-text court transcript (CaseCatalyst ASCII or RTF export) into
+ * pages and numbered lines. Handles page headers, form feeds, printed line numbers,
+ * Q/A markers, speaker labels, BY lines and parentheticals. Transcripts without
+ * printed numbering are paginated every `linesPerPage` lines.
+ */
+export const parseTranscript = (source: string, options: ParseOptions = {}): TranscriptDocument => {
+  const linesPerPage = options.linesPerPage ?? DEFAULT_LINES_PER_PAGE;
+  const plain = isRtf(source) ? rtfToText(source) : source;
+  const rawLines = splitRawLines(plain, linesPerPage);
+
+  const contentLines = rawLines.filter(l => l.headerPage === null && (l.number !== null || l.content.trim()));
+  const numberedCount = contentLines.filter(l => l.number !== null).length;
+  const isPaginated = contentLines.length > 0 && numberedCount / contentLines.length >= 0.5;
+
+  const pages: TranscriptPage[] = [];
+  const lines: TranscriptLine[] = [];
+  const speakers = new Set<string>();
+  let page: TranscriptPage | null = null;
+  let lineOnPage = 0;
+  let offset = 0;
+  let current: { kind: LineKind; speaker: string | null } = { kind: 'colloquy', speaker: null };
+  let examiner: string | null = null;
+  let inParenthetical = false;
+
+  const startPage = (number?: number) => {
+    page = { number: number ?? (page ? page.number + 1 : 1), lines: [] };
+    pages.push(page);
+    lineOnPage = 0;
+  };
+
+  for (const raw of rawLines) {
+    if (raw.headerPage !== null) {
+      // A header for a page we've already started (e.g. page 1 at the top) just names it
+      if (page && page.lines.length === 0) page.number = raw.headerPage;
+      else startPage(raw.headerPage);
+      continue;
+    }
+    if (!isPaginated && raw.number !== null) {
+      // Stray numbers in an unnumbered transcript are content
+      raw.content = `${raw.number} ${raw.content}`.trim();
+      raw.number = null;
+    }
+    if (isPaginated && raw.number === null && !raw.content.trim()) continue;
+
+    if (!page || raw.pageBreak) startPage();
+    else if (isPaginated && raw.number !== null && raw.number <= lineOnPage) startPage();
+    else if (!isPaginated && lineOnPage >= linesPerPage) startPage();
+
+    lineOnPage = isPaginated && raw.number !== null ? raw.number : lineOnPage + 1;
+
+    const text = raw.content.replace(/\s+$/, '');
+    const trimmed = text.trim();
+    let kind: LineKind;
+    let speaker: string | null;
+
+    let match: RegExpExecArray | null;
+    if (!trimmed) {
+      kind = 'blank';
+      speaker = null;
+    } else if (inParenthetical || trimmed.startsWith('(')) {
+      kind = 'parenthetical';
+      speaker = null;
+      inParenthetical = !trimmed.endsWith(')');
+    } else if ((match = BYLINE.exec(trimmed))) {
+      kind = 'byline';
+      examiner = match[1].trim();
+      speaker = null;
+      current = { kind: 'colloquy', speaker: null };
+    } else if (QUESTION.test(trimmed)) {
+      kind = 'question';
+      speaker = examiner ?? 'Q';
+      current = { kind, speaker };
+    } else if (ANSWER.test(trimmed)) {
+      kind = 'answer';
+      speaker = 'A';
+      current = { kind, speaker };
+    } else if ((match = SPEAKER.exec(trimmed))) {
+      kind = 'speaker';
+      speaker = match[1].trim();
+      current = { kind: 'colloquy', speaker };
+    } else {
+      // Continuation of whoever spoke last
+      kind = current.kind;
+      speaker = current.speaker;
+    }
+    if (speaker) speakers.add(speaker);
+
+    const line: TranscriptLine = { page: (page as TranscriptPage).number, line: lineOnPage, text, kind, speaker, offset };
+    (page as TranscriptPage).lines.push(line);
+    lines.push(line);
+    offset += text.length + 1;
+  }
+
+  return {
+    pages: pages.filter(p => p.lines.length > 0),
+    lines,
+    text: lines.map(l => l.text).join('\n'),
+    speakers: [...speakers],
+    isPaginated,
+  };
+};
+
+/** The transcript line containing a character offset into TranscriptDocument.text. */
+export const findLineAtOffset = (doc: TranscriptDocument, offset: number): TranscriptLine | null => {
+  let lo = 0;
+  let hi = doc.lines.length - 1;
+  let found: TranscriptLine | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (doc.lines[mid].offset <= offset) {
+      found = doc.lines[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Word documents are binary/zipped; only text-based exports can be parsed here
+export const canParseTranscriptFile = (file: File) => /\.(txt|rtf)$/i.test(file.name);
+
+export const readTranscriptFile = async (file: File, options?: ParseOptions) =>
+  parseTranscript(await file.text(), options);
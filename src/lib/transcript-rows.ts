@@ -0,0 +1,41 @@
+import type { AnalysisError, LineMap } from '@/types/analysis';
+
+/** One row of the transcript viewer: a transcript line or a page break above it. */
+export type TranscriptRow =
+  | { kind: 'page'; page: number }
+  | { kind: 'line'; index: number };
+
+/**
+ * Rows for the transcript viewer, with a page-break row wherever the printed
+ * page changes. `rowOfLine[i]` is the row showing line i (0-based).
+ */
+export const buildTranscriptRows = (lineCount: number, lineMap?: LineMap) => {
+  const rows: TranscriptRow[] = [];
+  const rowOfLine: number[] = [];
+  for (let index = 0; index < lineCount; index++) {
+    const page = lineMap?.[index]?.[0];
+    if (page != null && index > 0 && lineMap[index - 1]?.[0] !== page) {
+      rows.push({ kind: 'page', page });
+    }
+    rowOfLine.push(rows.length);
+    rows.push({ kind: 'line', index });
+  }
+  return { rows, rowOfLine };
+};
+
+export interface IndexedError {
+  error: AnalysisError;
+  // Position in the full error list, which review decisions are keyed by
+  index: number;
+}
+
+/** Errors grouped by their 1-based transcript line, so rendering a line doesn't scan every error. */
+export const indexErrorsByLine = (errors: AnalysisError[]) => {
+  const byLine = new Map<number, IndexedError[]>();
+  errors.forEach((error, index) => {
+    const entries = byLine.get(error.line);
+    if (entries) entries.push({ error, index });
+    else byLine.set(error.line, [{ error, index }]);
+  });
+  return byLine;
+};
@@ -0,0 +1,83 @@
+import { buildSamplePayload } from '@/lib/sample-payload';
+
+/** One request to a workflow's webhook and what came back. */
+export interface WorkflowTestRun {
+  id: string;
+  url: string;
+  startedAt: string;
+  // Null when no response arrived (network error, CORS, timeout)
+  status: number | null;
+  statusText: string;
+  latencyMs: number;
+  // Only headers the webhook exposes to the browser through CORS are visible
+  headers: [string, string][];
+  body: string;
+  // Set when the body was cut to MAX_BODY_CHARS
+  truncated: boolean;
+  error?: string;
+}
+
+const TIMEOUT_MS = 30000;
+// History lives in localStorage, so large bodies are kept only in part
+const MAX_BODY_CHARS = 20000;
+
+/** POST the sample transcript and audio to a webhook and record the response. */
+export const runWorkflowTest = async (url: string): Promise<WorkflowTestRun> => {
+  const run: WorkflowTestRun = {
+    id: crypto.randomUUID(),
+    url,
+    startedAt: new Date().toISOString(),
+    status: null,
+    statusText: '',
+    latencyMs: 0,
+    headers: [],
+    body: '',
+    truncated: false,
+  };
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    const resp = await fetch(url, { method: 'POST', body: buildSamplePayload(), signal: controller.signal });
+    const body = await resp.text();
+    run.status = resp.status;
+    run.statusText = resp.statusText;
+    run.headers = Array.from(resp.headers.entries());
+    run.body = body.slice(0, MAX_BODY_CHARS);
+    run.truncated = body.length > MAX_BODY_CHARS;
+  } catch (err) {
+    run.error = controller.signal.aborted
+      ? `No response within ${TIMEOUT_MS / 1000} seconds`
+      : // fetch gives no detail for CORS or DNS failures
+        `Request failed (${err instanceof Error ? err.message : String(err)}). Check the URL and that the webhook allows requests from this origin.`;
+  } finally {
+    clearTimeout(timeout);
+    run.latencyMs = Math.round(performance.now() - started);
+  }
+  return run;
+};
+
+/** The body pretty-printed when it is JSON, otherwise as received. */
+export const formatResponseBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const HISTORY_KEY = 'case-scribe:workflow-tests';
+export const MAX_TEST_RUNS = 20;
+
+export const loadTestHistory = (): WorkflowTestRun[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTestHistory = (runs: WorkflowTestRun[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(runs.slice(0, MAX_TEST_RUNS)));
+};
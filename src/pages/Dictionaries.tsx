@@ -0,0 +1,360 @@
+import { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { downloadBlob } from '@/lib/download';
+import {
+  TERM_CATEGORIES,
+  createDictionary,
+  deleteDictionary,
+  dictionaryToCsv,
+  dictionaryToJson,
+  listDictionaries,
+  parseDictionaryFile,
+  saveDictionary,
+  type Dictionary,
+  type DictionaryScope,
+  type TermCategory,
+} from '@/lib/dictionary';
+import { ArrowLeft, BookOpen, FileDown, FileUp, Plus, Trash2 } from 'lucide-react';
+
+const SCOPE_LABELS: Record<DictionaryScope, string> = {
+  global: 'Global',
+  case: 'Case',
+};
+
+const Dictionaries = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newScope, setNewScope] = useState<DictionaryScope>('case');
+  const [term, setTerm] = useState('');
+  const [category, setCategory] = useState<TermCategory>('legal');
+  const [variants, setVariants] = useState('');
+
+  const { data: dictionaries = [], isLoading, error } = useQuery({
+    queryKey: ['dictionaries'],
+    queryFn: listDictionaries,
+  });
+  const selected = dictionaries.find(d => d.id === selectedId) ?? null;
+
+  const showError = (title: string) => (err: Error) => toast({
+    title,
+    description: err.message,
+    variant: 'destructive',
+  });
+
+  const save = useMutation({
+    mutationFn: saveDictionary,
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['dictionaries'] });
+      setSelectedId(saved.id);
+    },
+    onError: showError('Could not save dictionary'),
+  });
+
+  const remove = useMutation({
+    mutationFn: deleteDictionary,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dictionaries'] });
+      setSelectedId(null);
+    },
+    onError: showError('Delete failed'),
+  });
+
+  const update = (dictionary: Dictionary, changes: Partial<Dictionary>) =>
+    save.mutate({ ...dictionary, ...changes });
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    save.mutate(createDictionary(newName.trim(), newScope));
+    setNewName('');
+  };
+
+  const handleAddTerm = () => {
+    if (!selected || !term.trim()) return;
+    const entry = {
+      term: term.trim(),
+      category,
+      variants: variants.split(',').map(v => v.trim()).filter(Boolean),
+    };
+    const key = entry.term.toLowerCase();
+    // Re-adding an existing term replaces it
+    update(selected, { terms: [...selected.terms.filter(t => t.term.toLowerCase() !== key), entry] });
+    setTerm('');
+    setVariants('');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseDictionaryFile(await file.text(), file.name);
+      if (imported.terms.length === 0) throw new Error('No terms found in the file');
+      const name = imported.name || file.name.replace(/\.[^.]+$/, '');
+      save.mutate(createDictionary(name, imported.scope ?? 'case', imported.terms));
+      toast({ title: 'Dictionary imported', description: `${imported.terms.length} terms from ${file.name}` });
+    } catch (err) {
+      toast({
+        title: 'Import failed',
+        description: err instanceof Error ? err.message : String(err),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = (dictionary: Dictionary, kind: 'json' | 'csv') => {
+    const base = dictionary.name.replace(/[^\w-]+/g, '_') || 'dictionary';
+    if (kind === 'json') {
+      downloadBlob(new Blob([dictionaryToJson(dictionary)], { type: 'application/json' }), `${base}.json`);
+    } else {
+      downloadBlob(new Blob([dictionaryToCsv(dictionary)], { type: 'text/csv' }), `${base}.csv`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-12">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <BookOpen className="h-8 w-8 text-accent" />
+            <h1 className="text-4xl font-bold text-foreground">Dictionaries</h1>
+          </div>
+          <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
+            Legal terms and case proper nouns. Active dictionaries are checked in every analysis.
+          </p>
+        </div>
+
+        <div className="max-w-6xl mx-auto space-y-6">
+          <Button asChild variant="outline" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Analyzer
+            </Link>
+          </Button>
+
+          <div className="grid md:grid-cols-3 gap-6">
+            <Card className="shadow-card md:col-span-1">
+              <CardHeader>
+                <CardTitle>Word Lists</CardTitle>
+                <CardDescription>Toggle which lists are sent with new analyses</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {isLoading ? (
+                  <p className="text-sm text-muted-foreground">Loading dictionaries...</p>
+                ) : error ? (
+                  <p className="text-sm text-destructive">Could not read dictionaries: {(error as Error).message}</p>
+                ) : dictionaries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No dictionaries yet. Create or import one below.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {dictionaries.map(dictionary => (
+                      <div
+                        key={dictionary.id}
+                        className={cn(
+                          'flex items-center justify-between gap-2 rounded-md border p-3 cursor-pointer transition-colors',
+                          dictionary.id === selectedId ? 'border-accent bg-accent/10' : 'hover:bg-muted/50'
+                        )}
+                        onClick={() => setSelectedId(dictionary.id)}
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium text-sm truncate">{dictionary.name}</p>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Badge variant="outline" className="text-xs">{SCOPE_LABELS[dictionary.scope]}</Badge>
+                            <span className="text-xs text-muted-foreground">{dictionary.terms.length} terms</span>
+                          </div>
+                        </div>
+                        <Switch
+                          checked={dictionary.active}
+                          onClick={(e) => e.stopPropagation()}
+                          onCheckedChange={(active) => update(dictionary, { active })}
+                          aria-label={`Use ${dictionary.name} in analyses`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="dictionary-name">New dictionary</Label>
+                  <Input
+                    id="dictionary-name"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                    placeholder="e.g. Doe v. Acme Corp."
+                  />
+                  <div className="flex gap-2">
+                    <Select value={newScope} onValueChange={(value) => setNewScope(value as DictionaryScope)}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="case">Case-specific</SelectItem>
+                        <SelectItem value="global">Global</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="professional" onClick={handleCreate} disabled={!newName.trim()}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Create
+                    </Button>
+                  </div>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,.csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImport(file);
+                      e.target.value = '';
+                    }}
+                  />
+                  <Button size="sm" variant="outline" className="w-full" onClick={() => importInputRef.current?.click()}>
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Import JSON / CSV
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card md:col-span-2">
+              {selected ? (
+                <>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between gap-2">
+                      <Input
+                        key={selected.id}
+                        defaultValue={selected.name}
+                        onBlur={(e) => {
+                          const name = e.target.value.trim();
+                          if (name && name !== selected.name) update(selected, { name });
+                        }}
+                        className="text-lg font-semibold max-w-sm"
+                      />
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => handleExport(selected, 'json')}>
+                          <FileDown className="h-4 w-4 mr-1" />
+                          JSON
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleExport(selected, 'csv')}>
+                          <FileDown className="h-4 w-4 mr-1" />
+                          CSV
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive/80"
+                          onClick={() => {
+                            if (window.confirm(`Delete "${selected.name}" and its ${selected.terms.length} terms?`)) {
+                              remove.mutate(selected.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardTitle>
+                    <CardDescription>
+                      Variants are spellings to correct, e.g. "voir deer" for "voir dire". Near-misses of each
+                      term are flagged automatically.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid md:grid-cols-[2fr_1fr_2fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label htmlFor="term">Term</Label>
+                        <Input id="term" value={term} onChange={(e) => setTerm(e.target.value)} placeholder="Okonkwo" />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Category</Label>
+                        <Select value={category} onValueChange={(value) => setCategory(value as TermCategory)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TERM_CATEGORIES.map(c => (
+                              <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="variants">Variants (comma separated)</Label>
+                        <Input
+                          id="variants"
+                          value={variants}
+                          onChange={(e) => setVariants(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+                          placeholder="Oconquo, O'Konkwo"
+                        />
+                      </div>
+                      <Button variant="accent" onClick={handleAddTerm} disabled={!term.trim()}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+
+                    {selected.terms.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No terms in this dictionary yet.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Term</TableHead>
+                            <TableHead>Category</TableHead>
+                            <TableHead>Variants</TableHead>
+                            <TableHead className="w-12" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {selected.terms.map(entry => (
+                            <TableRow key={entry.term}>
+                              <TableCell className="font-medium">{entry.term}</TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className="text-xs">
+                                  {TERM_CATEGORIES.find(c => c.value === entry.category)?.label ?? entry.category}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {entry.variants.join(', ') || '—'}
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => update(selected, { terms: selected.terms.filter(t => t !== entry) })}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </>
+              ) : (
+                <CardContent className="py-16 text-center text-muted-foreground">
+                  Select a dictionary to edit its terms
+                </CardContent>
+              )}
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Dictionaries;
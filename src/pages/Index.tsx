@@ -1,7 +1,15 @@
+import { useSearchParams } from 'react-router-dom';
 import { TranscriptAnalyzer } from '@/components/TranscriptAnalyzer';
 
 const Index = () => {
-  return <TranscriptAnalyzer />;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  return (
+    <TranscriptAnalyzer
+      projectId={searchParams.get('project')}
+      onProjectSaved={(id) => setSearchParams({ project: id }, { replace: true })}
+    />
+  );
 };
 
 export default Index;
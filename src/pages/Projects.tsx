@@ -0,0 +1,123 @@
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { deleteProject, listProjects } from '@/lib/project-store';
+import { ArrowLeft, FolderOpen, Library, Trash2 } from 'lucide-react';
+
+const Projects = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: projects = [], isLoading, error } = useQuery({
+    queryKey: ['projects'],
+    queryFn: listProjects,
+  });
+
+  const removeProject = useMutation({
+    mutationFn: deleteProject,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['projects'] }),
+    onError: (err: Error) => toast({
+      title: 'Delete failed',
+      description: err.message,
+      variant: 'destructive',
+    }),
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-12">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <Library className="h-8 w-8 text-accent" />
+            <h1 className="text-4xl font-bold text-foreground">Project Library</h1>
+          </div>
+          <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
+            Every analysis is kept in this browser with its source files and review decisions.
+          </p>
+        </div>
+
+        <div className="max-w-6xl mx-auto space-y-6">
+          <Button asChild variant="outline" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              New Analysis
+            </Link>
+          </Button>
+
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>Saved Projects</CardTitle>
+              <CardDescription>Open a project to continue reviewing it in the Results tab</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading projects...</p>
+              ) : error ? (
+                <p className="text-sm text-destructive">Could not read the library: {(error as Error).message}</p>
+              ) : projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No projects yet. Completed analyses appear here.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Files</TableHead>
+                      <TableHead>Review</TableHead>
+                      <TableHead>Last updated</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {projects.map(project => (
+                      <TableRow key={project.id}>
+                        <TableCell className="font-medium">{project.name}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          <div>{project.transcriptName ?? '—'}</div>
+                          <div>{project.audioName ?? '—'}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {project.reviewed} / {project.totalErrors} reviewed
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {format(new Date(project.updatedAt), 'MMM d, yyyy h:mm a')}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button asChild size="sm" variant="outline">
+                            <Link to={`/?project=${project.id}`}>
+                              <FolderOpen className="h-4 w-4 mr-1" />
+                              Open
+                            </Link>
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-destructive hover:text-destructive/80"
+                            onClick={() => {
+                              if (window.confirm(`Delete "${project.name}" and its stored files?`)) {
+                                removeProject.mutate(project.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Projects;
@@ -0,0 +1,128 @@
+// Payloads from the API are checked against the zod schemas in '@/lib/api-schema'
+
+export type ErrorType = 'spelling' | 'grammar' | 'audio_mismatch' | 'legal_term';
+
+// Where an error sits, in the terms attorneys cite: page and line as printed
+export interface ErrorLocation {
+  page: number;
+  line: number;
+  // Character span in the analyzed transcript text
+  offset: number;
+  length: number;
+  // Position in the audio in seconds, when the aligner has word timestamps
+  start?: number | null;
+  end?: number | null;
+}
+
+export interface AnalysisError {
+  // 1-based line/column in the analyzed transcript text
+  line: number;
+  column: number;
+  original: string;
+  suggested: string;
+  confidence: number;
+  type: ErrorType;
+  location?: ErrorLocation | null;
+  // Who was speaking on the error's line, e.g. "THE COURT", "MR. SMITH" or "A"
+  speaker?: string | null;
+}
+
+// One difflib opcode between transcript and audio tokens; "insert" is audio the transcript lacks
+export interface AlignmentOp {
+  tag: 'equal' | 'replace' | 'insert' | 'delete';
+  // Character span in the analyzed transcript text (empty for inserts)
+  offset: number;
+  length: number;
+  // The machine transcription for this span, in the words whisper returned
+  audioText: string;
+  start?: number | null;
+  end?: number | null;
+}
+
+export interface PageAccuracy {
+  page: number;
+  // Words heard in the audio on this page
+  referenceWords: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  // Null when no audio words fell on the page
+  accuracy: number | null;
+}
+
+// Word-level comparison of the transcript (hypothesis) against the audio (reference):
+// an insertion is a transcript word nobody said, a deletion a spoken word left out
+export interface AccuracyReport {
+  referenceWords: number;
+  transcriptWords: number;
+  correctWords: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  // Null without audio words to compare against
+  wer: number | null;
+  accuracy: number | null;
+  pages: PageAccuracy[];
+}
+
+export interface AnalysisSummary {
+  totalErrors: number;
+  byType: Record<string, number>;
+  // Word accuracy against the audio; 0 when it couldn't be measured
+  confidenceScore: number;
+  // Seconds from the start of transcription to the finished analysis
+  processingTime: number;
+  // Missing from analyses saved before accuracy reports existed
+  accuracy?: AccuracyReport | null;
+}
+
+export interface AnalysisData {
+  errors: AnalysisError[];
+  summary: AnalysisSummary;
+}
+
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// [page, line] as printed, for each line of the analyzed transcript text
+export type LineMap = [number, number][];
+
+// Speaker for each line of the analyzed transcript text (null for blank lines and parentheticals)
+export type LineSpeakers = (string | null)[];
+
+export interface LineTiming {
+  line: number;
+  start: number;
+  end: number;
+}
+
+export interface DownloadFile {
+  b64: string;
+  name: string;
+  mime: string;
+}
+
+export interface AnalysisDownloads {
+  txt: DownloadFile;
+  docx: DownloadFile;
+}
+
+// Raw /api/analyze (and finished job) response from the server
+export interface AnalyzeResponse {
+  analysis: AnalysisData;
+  transcriptText?: string;
+  words?: WordTiming[];
+  lineTimings?: LineTiming[];
+  alignment?: AlignmentOp[];
+  lineMap?: LineMap;
+  lineSpeakers?: LineSpeakers;
+  correctedTranscript?: string;
+  downloads?: {
+    txt_base64: string;
+    docx_base64: string;
+    filenames?: { txt?: string; docx?: string };
+  } | null;
+}
@@ -0,0 +1,102 @@
+import {
+  env,
+  pipeline,
+  type AutomaticSpeechRecognitionPipeline,
+  type PretrainedModelOptions,
+} from '@huggingface/transformers';
+import type { WordTiming } from '@/types/analysis';
+
+export type WhisperRequest = {
+  type: 'transcribe';
+  // 16 kHz mono samples
+  audio: Float32Array;
+  model: string;
+};
+
+export type WhisperResponse =
+  | { type: 'progress'; stage: 'model' | 'transcription'; progress: number }
+  | { type: 'result'; words: WordTiming[] }
+  | { type: 'error'; message: string };
+
+const SAMPLE_RATE = 16000;
+// Audio is fed in windows so we can report progress; the pipeline chunks each window itself
+const WINDOW_SECONDS = 120;
+
+// Models come from the Hugging Face hub and are cached by the browser
+env.allowLocalModels = false;
+
+// The generic pipeline() signature is too large for tsc to resolve; pin it to the one task we use
+const createTranscriber = pipeline as unknown as (
+  task: 'automatic-speech-recognition',
+  model: string,
+  options: PretrainedModelOptions
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+const ctx = self as unknown as Worker;
+const post = (message: WhisperResponse) => ctx.postMessage(message);
+
+let loaded: { model: string; transcriber: Promise<AutomaticSpeechRecognitionPipeline> } | null = null;
+
+const loadModel = (model: string) => {
+  if (loaded?.model !== model) {
+    // Several files download in parallel; report the combined byte progress
+    const files = new Map<string, { loaded: number; total: number }>();
+    const transcriber = createTranscriber('automatic-speech-recognition', model, {
+      progress_callback: (info) => {
+        if (info.status !== 'progress') return;
+        files.set(info.file, { loaded: info.loaded, total: info.total });
+        let done = 0;
+        let total = 0;
+        files.forEach(f => {
+          done += f.loaded;
+          total += f.total;
+        });
+        if (total) post({ type: 'progress', stage: 'model', progress: done / total });
+      },
+    });
+    loaded = { model, transcriber };
+    transcriber.catch(() => {
+      loaded = null;
+    });
+  }
+  return loaded.transcriber;
+};
+
+const transcribe = async ({ audio, model }: WhisperRequest) => {
+  post({ type: 'progress', stage: 'model', progress: 0 });
+  const transcriber = await loadModel(model);
+  post({ type: 'progress', stage: 'model', progress: 1 });
+
+  const words: WordTiming[] = [];
+  const windowSize = WINDOW_SECONDS * SAMPLE_RATE;
+  for (let start = 0; start < audio.length; start += windowSize) {
+    post({ type: 'progress', stage: 'transcription', progress: start / audio.length });
+    const offset = start / SAMPLE_RATE;
+    const output = await transcriber(audio.subarray(start, start + windowSize), {
+      return_timestamps: 'word',
+      chunk_length_s: 30,
+      stride_length_s: 5,
+    });
+    for (const chunk of (Array.isArray(output) ? output[0] : output).chunks ?? []) {
+      const word = chunk.text.trim();
+      if (!word) continue;
+      const [chunkStart, chunkEnd] = chunk.timestamp;
+      words.push({
+        word,
+        start: offset + chunkStart,
+        end: offset + (chunkEnd ?? chunkStart),
+      });
+    }
+  }
+  post({ type: 'progress', stage: 'transcription', progress: 1 });
+  return words;
+};
+
+ctx.onmessage = async (e: MessageEvent<WhisperRequest>) => {
+  if (e.data.type !== 'transcribe') return;
+  try {
+    post({ type: 'result', words: await transcribe(e.data) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};